@@ -0,0 +1,122 @@
+/**
+ * Compares the linear route matcher with the compiled trie matcher.
+ * Verifies that both resolve every sample path to the same route, then
+ * reports lookups per second for each.
+ *
+ * Usage: pnpm bench [routeCount] [iterations]
+ */
+import {
+  LinearRouteMatcher,
+  TrieRouteMatcher,
+  RouteMatcher,
+} from '../src/core/route-matcher';
+import { calculatePriority } from '../src/utils/priority';
+import { RouteDefinition } from '../src/types/core';
+
+const routeCount = Number(process.argv[2] ?? 300);
+const iterations = Number(process.argv[3] ?? 20_000);
+
+const sections = ['app', 'admin', 'api', 'docs', 'shop', 'account', 'blog'];
+
+function createRoutes(count: number): RouteDefinition[] {
+  const routes: RouteDefinition[] = [];
+
+  for (let i = 0; routes.length < count; i++) {
+    const section = sections[i % sections.length];
+    const base = `/${section}/area-${i}`;
+    const variant = i % 5;
+
+    const [pattern, isExact] =
+      variant === 0
+        ? [base, false]
+        : variant === 1
+          ? [`${base}/[id]`, true]
+          : variant === 2
+            ? [`${base}/[...slug]`, true]
+            : variant === 3
+              ? [`${base}/settings`, true]
+              : [`/${section}/[team]/area-${i}/[[...rest]]`, true];
+
+    routes.push({
+      pattern,
+      rules: [],
+      priority: calculatePriority(pattern, isExact),
+      isExact,
+      prefix: isExact ? undefined : pattern,
+    });
+  }
+
+  routes.push(
+    {
+      pattern: '/',
+      rules: [],
+      priority: calculatePriority('/', false),
+      isExact: false,
+      prefix: '',
+    },
+    ...sections.map((section) => ({
+      pattern: `/${section}`,
+      rules: [],
+      priority: calculatePriority(`/${section}`, false),
+      isExact: false,
+      prefix: `/${section}`,
+    })),
+  );
+
+  return routes;
+}
+
+function createPaths(count: number): string[] {
+  const paths: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const section = sections[i % sections.length];
+    const area = `area-${(i * 7) % routeCount}`;
+    const tails = ['', '/42', '/a/b/c', '/settings', '/x/y'];
+    paths.push(`/${section}/${area}${tails[i % tails.length]}`);
+    paths.push(`/${section}/team-${i}/${area}/deep/path`);
+  }
+
+  paths.push('/', '/unknown/path', '/docs');
+  return paths;
+}
+
+function measure(name: string, matcher: RouteMatcher, paths: string[]) {
+  const start = performance.now();
+  for (let i = 0; i < iterations; i++) {
+    matcher.match(paths[i % paths.length]!);
+  }
+  const elapsed = performance.now() - start;
+  const opsPerSec = Math.round((iterations / elapsed) * 1000);
+
+  console.log(
+    `${name.padEnd(8)} ${opsPerSec.toLocaleString().padStart(12)} ops/sec  (${elapsed.toFixed(1)}ms)`,
+  );
+}
+
+const routes = createRoutes(routeCount);
+const paths = createPaths(500);
+const linear = new LinearRouteMatcher(routes);
+const trie = new TrieRouteMatcher(routes);
+
+for (const path of paths) {
+  const expected = linear.match(path);
+  const actual = trie.match(path);
+
+  if (
+    expected?.route !== actual?.route ||
+    JSON.stringify(expected?.params) !== JSON.stringify(actual?.params)
+  ) {
+    console.error(`Matchers disagree for ${path}`, {
+      linear: expected?.route.pattern,
+      trie: actual?.route.pattern,
+    });
+    process.exit(1);
+  }
+}
+
+console.log(
+  `${routes.length} routes, ${paths.length} sample paths, ${iterations.toLocaleString()} lookups`,
+);
+measure('linear', linear, paths);
+measure('trie', trie, paths);
@@ -0,0 +1,44 @@
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Encode a string as UTF-8 bytes.
+ */
+export function toBytes(value: string): Uint8Array<ArrayBuffer> {
+  return encoder.encode(value);
+}
+
+/**
+ * Decode UTF-8 bytes to a string.
+ */
+export function fromBytes(bytes: Uint8Array): string {
+  return decoder.decode(bytes);
+}
+
+/**
+ * Encode bytes as unpadded base64url.
+ */
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decode base64url (or base64) to bytes.
+ * Throws if the input is not valid base64.
+ */
+export function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
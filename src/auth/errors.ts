@@ -0,0 +1,17 @@
+import { AuthErrorCode } from './types';
+
+/**
+ * Error thrown by the built-in auth providers when a token or session is
+ * present but invalid. Thrown from `fetchUser`, it is handled like any
+ * other user fetch failure: `authPaths` continue, other paths redirect to
+ * the sign-in page.
+ */
+export class AuthError extends Error {
+  readonly code: AuthErrorCode;
+
+  constructor(code: AuthErrorCode, message: string) {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+  }
+}
@@ -0,0 +1,314 @@
+import { AuthError } from './errors';
+import { base64UrlDecode, fromBytes, toBytes } from './encoding';
+import {
+  Jwk,
+  JwtAlgorithm,
+  JwtClaims,
+  JwtHeader,
+  JwtVerifyOptions,
+} from './types';
+
+/**
+ * Web Crypto parameters for each supported algorithm.
+ */
+const algorithms: Record<
+  JwtAlgorithm,
+  {
+    importParams: RsaHashedImportParams | EcKeyImportParams | HmacImportParams;
+    verifyParams: AlgorithmIdentifier | EcdsaParams;
+  }
+> = {
+  HS256: {
+    importParams: { name: 'HMAC', hash: 'SHA-256' },
+    verifyParams: 'HMAC',
+  },
+  RS256: {
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    verifyParams: 'RSASSA-PKCS1-v1_5',
+  },
+  ES256: {
+    importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+    verifyParams: { name: 'ECDSA', hash: 'SHA-256' },
+  },
+};
+
+/**
+ * Create a JWT verification function.
+ * Imported keys are cached, so create the verifier once and reuse it.
+ *
+ * @param options - Keys and claim requirements
+ * @returns Function resolving to the verified claims, or rejecting with an
+ * `AuthError`
+ */
+export function createJwtVerifier(
+  options: JwtVerifyOptions,
+): (token: string) => Promise<JwtClaims> {
+  const allowed = options.algorithms ?? inferAlgorithms(options);
+  if (allowed.length === 0) {
+    throw new Error(
+      'JWT verification needs a secret, public key or JWKS, and `algorithms` for PEM or CryptoKey public keys',
+    );
+  }
+
+  // Imports are cached per configured key, so the cache is bounded by the
+  // options rather than by the `kid`s tokens claim. Misses and failed
+  // imports are not cached.
+  const keys = new Map<
+    JwtAlgorithm,
+    Map<KeySource, Promise<CryptoKey | null>>
+  >();
+  const getKey = (alg: JwtAlgorithm, kid?: string) => {
+    const source = findKeySource(options, alg, kid);
+    if (source === null) return null;
+
+    let imported = keys.get(alg);
+    if (!imported) {
+      imported = new Map();
+      keys.set(alg, imported);
+    }
+    let key = imported.get(source);
+    if (!key) {
+      const cache = imported;
+      // Keys that fail to import cannot verify the token either.
+      key = importKeySource(source, alg).catch(() => {
+        cache.delete(source);
+        return null;
+      });
+      cache.set(source, key);
+    }
+    return key;
+  };
+
+  return async (token) => {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new AuthError('malformed', 'Token is not a JWT');
+    }
+    const [encodedHeader, encodedPayload, encodedSignature] = parts as [
+      string,
+      string,
+      string,
+    ];
+
+    const header = decodeJson<JwtHeader>(encodedHeader);
+    const claims = decodeJson<JwtClaims>(encodedPayload);
+
+    const alg = header.alg as JwtAlgorithm;
+    if (!allowed.includes(alg)) {
+      throw new AuthError(
+        'unsupported_algorithm',
+        `Algorithm ${header.alg} is not allowed`,
+      );
+    }
+
+    const key = await getKey(alg, header.kid);
+    if (!key) {
+      throw new AuthError(
+        'key_not_found',
+        `No ${alg} key found${header.kid ? ` for kid ${header.kid}` : ''}`,
+      );
+    }
+
+    let signature: Uint8Array<ArrayBuffer>;
+    try {
+      signature = base64UrlDecode(encodedSignature);
+    } catch {
+      throw new AuthError('malformed', 'Token signature is not base64url');
+    }
+
+    const valid = await crypto.subtle.verify(
+      algorithms[alg].verifyParams,
+      key,
+      signature,
+      toBytes(`${encodedHeader}.${encodedPayload}`),
+    );
+    if (!valid) {
+      throw new AuthError('invalid_signature', 'Token signature is invalid');
+    }
+
+    validateClaims(claims, options);
+    return claims;
+  };
+}
+
+/**
+ * Verify a JWT and return its claims.
+ * Prefer `createJwtVerifier` when verifying many tokens with the same keys.
+ *
+ * @param token - The compact JWT
+ * @param options - Keys and claim requirements
+ * @returns The verified claims
+ * @throws AuthError if the token is invalid
+ */
+export function verifyJwt(
+  token: string,
+  options: JwtVerifyOptions,
+): Promise<JwtClaims> {
+  return createJwtVerifier(options)(token);
+}
+
+/**
+ * Check the time, issuer and audience claims.
+ */
+function validateClaims(claims: JwtClaims, options: JwtVerifyOptions): void {
+  const now = Math.floor(Date.now() / 1000);
+  const tolerance = options.clockTolerance ?? 5;
+
+  if (typeof claims.exp === 'number') {
+    if (now - tolerance >= claims.exp) {
+      throw new AuthError('expired', 'Token has expired');
+    }
+  } else if (options.requireExpiration !== false) {
+    throw new AuthError('malformed', 'Token has no expiration time');
+  }
+
+  if (typeof claims.nbf === 'number' && now + tolerance < claims.nbf) {
+    throw new AuthError('not_yet_valid', 'Token is not valid yet');
+  }
+
+  if (options.issuer !== undefined) {
+    const issuers = toArray(options.issuer);
+    if (!claims.iss || !issuers.includes(claims.iss)) {
+      throw new AuthError('invalid_issuer', 'Token issuer is not accepted');
+    }
+  }
+
+  if (options.audience !== undefined) {
+    const audiences = toArray(options.audience);
+    const tokenAudiences = claims.aud === undefined ? [] : toArray(claims.aud);
+    if (!tokenAudiences.some((aud) => audiences.includes(aud))) {
+      throw new AuthError('invalid_audience', 'Token audience is not accepted');
+    }
+  }
+}
+
+/**
+ * Algorithms the configured keys can verify.
+ */
+function inferAlgorithms(options: JwtVerifyOptions): JwtAlgorithm[] {
+  const inferred = new Set<JwtAlgorithm>();
+
+  if (options.secret !== undefined) {
+    inferred.add('HS256');
+  }
+  if (options.publicKey && typeof options.publicKey === 'object') {
+    const alg =
+      'type' in options.publicKey
+        ? algorithmOfCryptoKey(options.publicKey)
+        : algorithmOfJwk(options.publicKey);
+    if (alg) inferred.add(alg);
+  }
+  for (const jwk of options.jwks?.keys ?? []) {
+    const alg = algorithmOfJwk(jwk);
+    if (alg && alg !== 'HS256') inferred.add(alg);
+  }
+
+  return [...inferred];
+}
+
+/**
+ * A configured key: the HS256 secret, a JWK or a public key.
+ */
+type KeySource = string | Uint8Array | Jwk | CryptoKey;
+
+/**
+ * Find the configured key verifying tokens signed with `alg`, or null if
+ * none applies.
+ */
+function findKeySource(
+  options: JwtVerifyOptions,
+  alg: JwtAlgorithm,
+  kid?: string,
+): KeySource | null {
+  const { publicKey } = options;
+
+  if (alg === 'HS256') {
+    if (publicKey && typeof publicKey === 'object' && 'type' in publicKey) {
+      return algorithmOfCryptoKey(publicKey) === alg ? publicKey : null;
+    }
+    return options.secret ?? null;
+  }
+
+  const jwk = options.jwks?.keys.find(
+    (key) =>
+      (kid === undefined || key.kid === kid) &&
+      algorithmOfJwk(key) === alg &&
+      (key as { use?: string }).use !== 'enc',
+  );
+  if (jwk) return jwk;
+
+  if (!publicKey) return null;
+  if (typeof publicKey === 'string') return publicKey;
+  if ('type' in publicKey) {
+    return algorithmOfCryptoKey(publicKey) === alg ? publicKey : null;
+  }
+  return algorithmOfJwk(publicKey) === alg ? publicKey : null;
+}
+
+/**
+ * Import a configured key for verifying tokens signed with `alg`.
+ */
+async function importKeySource(
+  source: KeySource,
+  alg: JwtAlgorithm,
+): Promise<CryptoKey> {
+  const { importParams } = algorithms[alg];
+
+  if (typeof source === 'string' && alg !== 'HS256') {
+    const der = base64UrlDecode(
+      source.replace(/-----(BEGIN|END) PUBLIC KEY-----|\s/g, ''),
+    );
+    return crypto.subtle.importKey('spki', der, importParams, false, [
+      'verify',
+    ]);
+  }
+  if (typeof source === 'string' || source instanceof Uint8Array) {
+    const secret =
+      typeof source === 'string' ? toBytes(source) : new Uint8Array(source);
+    return crypto.subtle.importKey('raw', secret, importParams, false, [
+      'verify',
+    ]);
+  }
+  if ('type' in source) return source;
+  return crypto.subtle.importKey('jwk', source, importParams, false, [
+    'verify',
+  ]);
+}
+
+function algorithmOfJwk(jwk: Jwk): JwtAlgorithm | null {
+  if (jwk.alg) {
+    return jwk.alg in algorithms ? (jwk.alg as JwtAlgorithm) : null;
+  }
+  if (jwk.kty === 'RSA') return 'RS256';
+  if (jwk.kty === 'EC' && jwk.crv === 'P-256') return 'ES256';
+  return null;
+}
+
+function algorithmOfCryptoKey(key: CryptoKey): JwtAlgorithm | null {
+  switch (key.algorithm.name) {
+    case 'HMAC':
+      return 'HS256';
+    case 'RSASSA-PKCS1-v1_5':
+      return 'RS256';
+    case 'ECDSA':
+      return 'ES256';
+    default:
+      return null;
+  }
+}
+
+function decodeJson<V>(segment: string): V {
+  try {
+    const value = JSON.parse(fromBytes(base64UrlDecode(segment)));
+    if (value && typeof value === 'object') {
+      return value as V;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new AuthError('malformed', 'Token is not valid JSON');
+}
+
+function toArray<V>(value: V | V[]): V[] {
+  return Array.isArray(value) ? value : [value];
+}
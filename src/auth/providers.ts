@@ -0,0 +1,84 @@
+import { NextRequest } from 'next/server';
+import { AuthError } from './errors';
+import { createJwtVerifier } from './jwt';
+import { unsealSession } from './session';
+import { JwtClaims, JwtProviderOptions, SessionProviderOptions } from './types';
+
+/**
+ * Built-in `fetchUser` implementations for common authentication setups.
+ * Missing credentials resolve to null; invalid credentials throw an
+ * `AuthError` unless `onInvalid` is `anonymous`.
+ */
+export const AuthProviders = {
+  /**
+   * Authenticate requests with a JWT from a cookie or a `Bearer` header,
+   * verified with HS256, RS256 or ES256.
+   */
+  jwt<T = JwtClaims>(
+    options: JwtProviderOptions<T>,
+  ): (req: NextRequest) => Promise<T | null> {
+    const verify = createJwtVerifier(options);
+    const header = options.header ?? 'authorization';
+
+    const getToken =
+      options.getToken ??
+      ((req: NextRequest) => {
+        const cookie = options.cookie && req.cookies.get(options.cookie)?.value;
+        if (cookie) return cookie;
+
+        const value = header ? req.headers.get(header) : null;
+        const match = value?.match(/^Bearer\s+(.+)$/i);
+        return match?.[1]?.trim();
+      });
+
+    return async (req) => {
+      const token = getToken(req);
+      if (!token) return null;
+
+      const claims = await handleInvalid(verify(token), options.onInvalid);
+      if (!claims) return null;
+
+      return options.map ? options.map(claims, req) : (claims as T);
+    };
+  },
+
+  /**
+   * Authenticate requests with a session cookie sealed by `sealSession`.
+   */
+  session<T = any>(
+    options: SessionProviderOptions<T>,
+  ): (req: NextRequest) => Promise<T | null> {
+    const cookie = options.cookie ?? 'session';
+
+    return async (req) => {
+      const value = req.cookies.get(cookie)?.value;
+      if (!value) return null;
+
+      const data = await handleInvalid(
+        unsealSession(value, options),
+        options.onInvalid,
+      );
+      if (data === null || data === undefined) return null;
+
+      return options.map ? options.map(data, req) : (data as T);
+    };
+  },
+};
+
+/**
+ * Resolve to null instead of rejecting when invalid credentials should be
+ * treated as anonymous.
+ */
+async function handleInvalid<V>(
+  result: Promise<V>,
+  onInvalid: 'throw' | 'anonymous' = 'throw',
+): Promise<V | null> {
+  try {
+    return await result;
+  } catch (error) {
+    if (onInvalid === 'anonymous' && error instanceof AuthError) {
+      return null;
+    }
+    throw error;
+  }
+}
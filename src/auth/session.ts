@@ -0,0 +1,163 @@
+import { AuthError } from './errors';
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  fromBytes,
+  toBytes,
+} from './encoding';
+import { SessionOptions } from './types';
+
+const keys = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * Seal session data into a cookie value.
+ * The value is signed with HMAC-SHA256, or encrypted with AES-GCM when
+ * `encrypted` is set, and expires after `maxAge` seconds.
+ *
+ * @param data - JSON-serializable session data
+ * @param options - Secret and session settings
+ * @returns The cookie value
+ */
+export async function sealSession(
+  data: unknown,
+  options: SessionOptions,
+): Promise<string> {
+  const [secret] = getSecrets(options);
+  const exp = Math.floor(Date.now() / 1000) + (options.maxAge ?? 604800);
+  const payload = toBytes(JSON.stringify({ data, exp }));
+
+  if (options.encrypted) {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      await getKey(secret!, 'encrypt'),
+      payload,
+    );
+    return `${base64UrlEncode(iv)}.${base64UrlEncode(new Uint8Array(ciphertext))}`;
+  }
+
+  const encoded = base64UrlEncode(payload);
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await getKey(secret!, 'sign'),
+    toBytes(encoded),
+  );
+  return `${encoded}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+/**
+ * Read session data from a cookie value sealed with `sealSession`.
+ *
+ * @param value - The cookie value
+ * @param options - Secret and session settings used to seal it
+ * @returns The session data
+ * @throws AuthError if the value is tampered with, malformed or expired
+ */
+export async function unsealSession<D = any>(
+  value: string,
+  options: SessionOptions,
+): Promise<D> {
+  const [first, second] = value.split('.');
+  if (!first || !second) {
+    throw new AuthError('invalid_session', 'Session is malformed');
+  }
+
+  let payload: Uint8Array | null = null;
+  for (const secret of getSecrets(options)) {
+    payload = options.encrypted
+      ? await decrypt(first, second, secret)
+      : await verify(first, second, secret);
+    if (payload) break;
+  }
+  if (!payload) {
+    throw new AuthError('invalid_session', 'Session could not be verified');
+  }
+
+  let session: { data: D; exp: number };
+  try {
+    session = JSON.parse(fromBytes(payload));
+  } catch {
+    throw new AuthError('invalid_session', 'Session is malformed');
+  }
+  if (!(session.exp > Date.now() / 1000)) {
+    throw new AuthError('expired', 'Session has expired');
+  }
+  return session.data;
+}
+
+async function verify(
+  encoded: string,
+  signature: string,
+  secret: string,
+): Promise<Uint8Array | null> {
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await getKey(secret, 'sign'),
+      base64UrlDecode(signature),
+      toBytes(encoded),
+    );
+    return valid ? base64UrlDecode(encoded) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function decrypt(
+  iv: string,
+  ciphertext: string,
+  secret: string,
+): Promise<Uint8Array | null> {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64UrlDecode(iv) },
+      await getKey(secret, 'encrypt'),
+      base64UrlDecode(ciphertext),
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    return null;
+  }
+}
+
+function getSecrets(options: SessionOptions): string[] {
+  const secrets = Array.isArray(options.secret)
+    ? options.secret
+    : [options.secret];
+  if (secrets.length === 0 || secrets.some((secret) => secret.length < 32)) {
+    throw new Error('Session secrets must be at least 32 characters long');
+  }
+  return secrets;
+}
+
+/**
+ * Derive separate signing and encryption keys from a secret with HKDF.
+ */
+function getKey(secret: string, use: 'sign' | 'encrypt'): Promise<CryptoKey> {
+  const cacheKey = `${use}:${secret}`;
+  let key = keys.get(cacheKey);
+
+  if (!key) {
+    key = crypto.subtle
+      .importKey('raw', toBytes(secret), 'HKDF', false, ['deriveKey'])
+      .then((material) =>
+        crypto.subtle.deriveKey(
+          {
+            name: 'HKDF',
+            hash: 'SHA-256',
+            salt: new Uint8Array(0),
+            info: toBytes(`next-middleware-toolkit session ${use}`),
+          },
+          material,
+          use === 'sign'
+            ? { name: 'HMAC', hash: 'SHA-256', length: 256 }
+            : { name: 'AES-GCM', length: 256 },
+          false,
+          use === 'sign' ? ['sign', 'verify'] : ['encrypt', 'decrypt'],
+        ),
+      );
+    keys.set(cacheKey, key);
+  }
+
+  return key;
+}
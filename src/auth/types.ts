@@ -0,0 +1,141 @@
+import { NextRequest } from 'next/server';
+
+/**
+ * Supported JWT signature algorithms
+ */
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256';
+
+/**
+ * Registered and custom JWT claims
+ */
+export interface JwtClaims {
+  /** Subject, usually the user id */
+  sub?: string;
+  /** Issuer */
+  iss?: string;
+  /** Audience */
+  aud?: string | string[];
+  /** Expiration time, in seconds since the epoch */
+  exp?: number;
+  /** Not-before time, in seconds since the epoch */
+  nbf?: number;
+  /** Issued-at time, in seconds since the epoch */
+  iat?: number;
+  /** JWT id */
+  jti?: string;
+  [claim: string]: unknown;
+}
+
+/**
+ * Decoded JWT header
+ */
+export interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
+/**
+ * A JSON Web Key with the members used to select it
+ */
+export interface Jwk extends JsonWebKey {
+  /** Key id, matched against the token's `kid` header */
+  kid?: string;
+}
+
+/**
+ * A JSON Web Key Set document
+ */
+export interface JwksDocument {
+  keys: Jwk[];
+}
+
+/**
+ * Options for verifying a JWT
+ */
+export interface JwtVerifyOptions {
+  /** Shared secret for HS256 tokens */
+  secret?: string | Uint8Array;
+  /** Public key for RS256/ES256 tokens, as PEM (SPKI), JWK or CryptoKey */
+  publicKey?: string | Jwk | CryptoKey;
+  /** Key set; the key is selected by the token's `kid` header */
+  jwks?: JwksDocument;
+  /**
+   * Accepted algorithms. Defaults to the algorithms the configured keys
+   * can verify; required for PEM and CryptoKey public keys.
+   */
+  algorithms?: JwtAlgorithm[];
+  /** Accepted issuers */
+  issuer?: string | string[];
+  /** Accepted audiences; the token must name at least one */
+  audience?: string | string[];
+  /** Allowed clock skew in seconds for `exp` and `nbf` (defaults to 5) */
+  clockTolerance?: number;
+  /** Require the token to have an `exp` claim (defaults to true) */
+  requireExpiration?: boolean;
+}
+
+/**
+ * Options for the JWT auth provider
+ */
+export interface JwtProviderOptions<T = JwtClaims> extends JwtVerifyOptions {
+  /** Cookie to read the token from, checked before the header */
+  cookie?: string;
+  /** Header to read a `Bearer` token from (defaults to `authorization`) */
+  header?: string | false;
+  /** Custom token lookup, replacing `cookie` and `header` */
+  getToken?: (req: NextRequest) => string | null | undefined;
+  /** Map verified claims to the user, defaults to the claims themselves */
+  map?: (claims: JwtClaims, req: NextRequest) => T | null | Promise<T | null>;
+  /**
+   * What to do with invalid tokens: `throw` an `AuthError` so the builder's
+   * auth error handling applies (default), or treat the request as anonymous
+   */
+  onInvalid?: 'throw' | 'anonymous';
+}
+
+/**
+ * Options for signed and encrypted cookie sessions
+ */
+export interface SessionOptions {
+  /**
+   * Secret used to sign or encrypt sessions, at least 32 characters.
+   * Pass several to rotate secrets: the first one seals new sessions and
+   * all of them are accepted.
+   */
+  secret: string | string[];
+  /** Encrypt the session instead of only signing it (defaults to false) */
+  encrypted?: boolean;
+  /** Session lifetime in seconds (defaults to 7 days) */
+  maxAge?: number;
+}
+
+/**
+ * Options for the cookie session auth provider
+ */
+export interface SessionProviderOptions<T = any> extends SessionOptions {
+  /** Cookie holding the session (defaults to `session`) */
+  cookie?: string;
+  /** Map the session data to the user, defaults to the data itself */
+  map?: (data: any, req: NextRequest) => T | null | Promise<T | null>;
+  /**
+   * What to do with invalid sessions: `throw` an `AuthError` so the
+   * builder's auth error handling applies (default), or treat the request
+   * as anonymous
+   */
+  onInvalid?: 'throw' | 'anonymous';
+}
+
+/**
+ * Reason an `AuthError` was raised
+ */
+export type AuthErrorCode =
+  | 'malformed'
+  | 'unsupported_algorithm'
+  | 'key_not_found'
+  | 'invalid_signature'
+  | 'expired'
+  | 'not_yet_valid'
+  | 'invalid_issuer'
+  | 'invalid_audience'
+  | 'invalid_session';
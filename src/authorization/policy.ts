@@ -0,0 +1,228 @@
+import {
+  ContextExtension,
+  MiddlewareContext,
+  MiddlewareRule,
+  RouteParams,
+} from '../types/core';
+import { NoInfer } from '../types/utils';
+import { Responses } from '../responses/response-helpers';
+import { defineRule } from '../rules/rule-info';
+import {
+  PolicyDenial,
+  PolicyOptions,
+  PolicyRules,
+  ResourceIdSelector,
+} from './types';
+
+/**
+ * Role and permission based authorization.
+ *
+ * Permissions are colon separated, e.g. `posts:edit`. A `*` segment
+ * matches any value and a trailing `*` matches everything after it, so
+ * `posts:*` grants every posts permission and `*` grants everything.
+ * Resource-scoped checks require `resource:action:id`, which is granted by
+ * `resource:action` (every instance) or `resource:action:id` (one instance).
+ */
+export class Policy<T = any> {
+  /** Rules enforcing this policy, for use in routes */
+  readonly rules: PolicyRules<T>;
+  private options: Required<
+    Pick<PolicyOptions<T>, 'roles' | 'getRoles' | 'getPermissions' | 'onDenied'>
+  > &
+    Pick<PolicyOptions<T>, 'policy'>;
+  private inheritedRoles = new Map<string, string[]>();
+
+  constructor(options: PolicyOptions<T> = {}) {
+    this.options = {
+      roles: {},
+      getRoles: (user: any) => [
+        ...(user?.role ? [user.role] : []),
+        ...(user?.roles ?? []),
+      ],
+      getPermissions: (user: any) => user?.permissions,
+      onDenied: (_context, denial) =>
+        Responses.forbidden(`Required ${denial.requirement}`),
+      ...options,
+    };
+
+    for (const role of Object.keys(this.options.roles)) {
+      this.inheritedRoles.set(role, this.expandRole(role));
+    }
+
+    this.rules = this.createRules();
+  }
+
+  /**
+   * All roles of a user, including inherited roles.
+   */
+  getRoles(user: T | null | undefined): string[] {
+    if (!user) return [];
+
+    const direct = this.options.getRoles(user) ?? [];
+    const roles = new Set<string>();
+    for (const role of Array.isArray(direct) ? direct : [direct]) {
+      for (const inherited of this.inheritedRoles.get(role) ?? [role]) {
+        roles.add(inherited);
+      }
+    }
+    return [...roles];
+  }
+
+  /**
+   * All permissions of a user, granted directly or through roles.
+   */
+  getPermissions(user: T | null | undefined): string[] {
+    if (!user) return [];
+
+    const permissions = new Set(this.options.getPermissions(user) ?? []);
+    for (const role of this.getRoles(user)) {
+      for (const permission of this.options.roles[role]?.permissions ?? []) {
+        permissions.add(permission);
+      }
+    }
+    return [...permissions];
+  }
+
+  /**
+   * Check whether a user has a role, directly or through inheritance.
+   */
+  hasRole(user: T | null | undefined, role: string): boolean {
+    return this.getRoles(user).includes(role);
+  }
+
+  /**
+   * Check whether a user has a permission, honouring wildcards.
+   */
+  hasPermission(user: T | null | undefined, permission: string): boolean {
+    return this.getPermissions(user).some((granted) =>
+      matchPermission(granted, permission),
+    );
+  }
+
+  /**
+   * Check whether a user may perform an action on a resource.
+   * The user's permissions decide first; the policy function can then
+   * allow or deny regardless.
+   */
+  async can(
+    user: T | null | undefined,
+    action: string,
+    resource: string,
+    resourceId?: string,
+    context?: MiddlewareContext<T>,
+  ): Promise<boolean> {
+    if (!user) return false;
+
+    const permission = resourceId
+      ? `${resource}:${action}:${resourceId}`
+      : `${resource}:${action}`;
+    const granted = this.hasPermission(user, permission);
+
+    const decision = await this.options.policy?.({
+      user,
+      action,
+      resource,
+      resourceId,
+      context,
+      granted,
+    });
+    return typeof decision === 'boolean' ? decision : granted;
+  }
+
+  private createRules(): PolicyRules<T> {
+    return {
+      hasRole: (role) =>
+        this.createRule(`hasRole(${role})`, `role:${role}`, ({ data }) =>
+          this.hasRole(data, role),
+        ),
+      hasPermission: (permission) =>
+        this.createRule(
+          `hasPermission(${permission})`,
+          `permission:${permission}`,
+          ({ data }) => this.hasPermission(data, permission),
+        ),
+      // Checked against `PolicyRules` by assertion: TypeScript cannot
+      // relate the generic signatures through the local `NoInfer`.
+      can: (<P = RouteParams, X extends ContextExtension = {}>(
+        action: string,
+        resource: string,
+        resourceId?: NoInfer<ResourceIdSelector<T, P, X>>,
+      ) =>
+        this.createRule(
+          `can(${action}, ${resource})`,
+          `${resource}:${action}`,
+          (context) =>
+            this.can(
+              context.data,
+              action,
+              resource,
+              typeof resourceId === 'function'
+                ? resourceId(context as MiddlewareContext<T, P> & X)
+                : resourceId,
+              context,
+            ),
+        ) as MiddlewareRule<T, P, X>) as PolicyRules<T>['can'],
+    };
+  }
+
+  private createRule(
+    name: string,
+    requirement: string,
+    check: (context: MiddlewareContext<T>) => boolean | Promise<boolean>,
+  ): MiddlewareRule<T> {
+    return defineRule(
+      async (context: MiddlewareContext<T>) => {
+        await context.load('user');
+        if (await check(context)) {
+          return null;
+        }
+        const denial: PolicyDenial = {
+          reason: context.data ? 'forbidden' : 'unauthenticated',
+          requirement,
+        };
+        return this.options.onDenied(context, denial);
+      },
+      { needsData: true, name },
+    );
+  }
+
+  /**
+   * Resolve a role and every role it inherits from, ignoring cycles.
+   */
+  private expandRole(role: string, seen = new Set<string>()): string[] {
+    if (seen.has(role)) return [];
+    seen.add(role);
+
+    for (const parent of this.options.roles[role]?.inherits ?? []) {
+      this.expandRole(parent, seen);
+    }
+    return [...seen];
+  }
+}
+
+/**
+ * Check whether a granted permission covers a required permission.
+ */
+export function matchPermission(granted: string, required: string): boolean {
+  const grantedParts = granted.split(':');
+  const requiredParts = required.split(':');
+
+  for (let i = 0; i < grantedParts.length; i++) {
+    const part = grantedParts[i];
+    if (part === '*' && i === grantedParts.length - 1) {
+      return true;
+    }
+    if (i >= requiredParts.length) {
+      return false;
+    }
+    if (part !== '*' && part !== requiredParts[i]) {
+      return false;
+    }
+  }
+
+  // An unscoped grant covers every instance of the resource.
+  return (
+    grantedParts.length === requiredParts.length ||
+    (grantedParts.length === 2 && requiredParts.length === 3)
+  );
+}
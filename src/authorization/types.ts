@@ -0,0 +1,99 @@
+import {
+  ContextExtension,
+  MiddlewareContext,
+  MiddlewareResult,
+  MiddlewareRule,
+  RouteParams,
+} from '../types/core';
+import { NoInfer } from '../types/utils';
+
+/**
+ * Definition of a role
+ */
+export interface RoleDefinition {
+  /** Roles whose permissions this role includes */
+  inherits?: string[];
+  /** Permissions granted by this role, e.g. `posts:read` or `posts:*` */
+  permissions?: string[];
+}
+
+/**
+ * An authorization check passed to the policy function
+ */
+export interface PolicyCheck<T = any> {
+  /** The user being checked */
+  user: T;
+  /** The action, e.g. `edit` */
+  action: string;
+  /** The resource type, e.g. `project` */
+  resource: string;
+  /** The resource instance, e.g. a route param */
+  resourceId?: string;
+  /** The middleware context, when checked from a rule */
+  context?: MiddlewareContext<T>;
+  /** Whether the user's permissions grant the action */
+  granted: boolean;
+}
+
+/**
+ * Custom authorization logic.
+ * Return true to allow, false to deny, or undefined to keep the decision
+ * made from the user's permissions.
+ */
+export type PolicyFn<T = any> = (
+  check: PolicyCheck<T>,
+) => boolean | undefined | void | Promise<boolean | undefined | void>;
+
+/**
+ * Why a policy rule denied a request
+ */
+export interface PolicyDenial {
+  /** `unauthenticated` when there is no user, `forbidden` otherwise */
+  reason: 'unauthenticated' | 'forbidden';
+  /** Description of the requirement, e.g. `role:admin` or `project:edit` */
+  requirement: string;
+}
+
+/**
+ * Configuration options for a policy
+ */
+export interface PolicyOptions<T = any> {
+  /** Roles by name */
+  roles?: Record<string, RoleDefinition>;
+  /** Read the user's roles, defaults to `user.role` and `user.roles` */
+  getRoles?: (user: T) => string | string[] | null | undefined;
+  /** Read permissions granted directly to the user, defaults to `user.permissions` */
+  getPermissions?: (user: T) => string[] | null | undefined;
+  /** Custom logic run for every `can` check */
+  policy?: PolicyFn<T>;
+  /** Create the response for denied requests, defaults to 403 Forbidden */
+  onDenied?: (
+    context: MiddlewareContext<T>,
+    denial: PolicyDenial,
+  ) => MiddlewareResult;
+}
+
+/**
+ * Value or function returning the resource instance a rule checks
+ */
+export type ResourceIdSelector<
+  T = any,
+  P = RouteParams,
+  X extends ContextExtension = {},
+> = string | ((context: MiddlewareContext<T, P> & X) => string | undefined);
+
+/**
+ * Rules enforcing a policy
+ */
+export interface PolicyRules<T = any> {
+  /** Require the user to have a role, directly or through inheritance */
+  hasRole(role: string): MiddlewareRule<T>;
+  /** Require the user to have a permission */
+  hasPermission(permission: string): MiddlewareRule<T>;
+  /** Require the user to be allowed to perform an action on a resource */
+  can<P = RouteParams, X extends ContextExtension = {}>(
+    action: string,
+    resource: string,
+    resourceId?: NoInfer<ResourceIdSelector<T, P, X>>,
+  ): MiddlewareRule<T, P, X>;
+}
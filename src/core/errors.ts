@@ -0,0 +1,15 @@
+/**
+ * Error thrown when `context.data` is read before the user is loaded.
+ * Rules that read it must not be defined with `needsData: false`, and code
+ * that runs before the rules, such as plugins, should
+ * `await context.load('user')` instead. It is never handled like a failed
+ * user fetch, so reading `data` too early cannot let a request through.
+ */
+export class UserNotLoadedError extends Error {
+  constructor() {
+    super(
+      "context.data was read before the user was loaded; use await context.load('user')",
+    );
+    this.name = 'UserNotLoadedError';
+  }
+}
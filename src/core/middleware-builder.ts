@@ -5,146 +5,264 @@ import {
   MiddlewareRule,
   Plugin,
   RouteDefinition,
+  RouteMatch,
   MiddlewareBuilderOptions,
+  DataLoader,
+  ContextExtension,
+  RedirectMapping,
+  RewriteMapping,
 } from '../types/core';
-import {
-  calculatePriority,
-  matchRoute,
-  extractParams,
-} from '../utils/priority';
+import { getRuleInfo } from '../rules/rule-info';
+import { RouteCollection } from './route-collection';
+import { RouteMatcher, TrieRouteMatcher } from './route-matcher';
+import { resolvePathMapping } from './path-mappings';
+import { UserNotLoadedError } from './errors';
 import { Responses } from '../responses/response-helpers';
+import {
+  ResolvedSignInOptions,
+  createSignInRedirect,
+  defaultSignInOptions,
+  getCallbackUrl,
+  isSignInPage,
+} from '../utils/redirects';
+import { createCookieJar, serializeCookie } from '../utils/cookies';
+import { forwardRequestHeaders } from '../utils/request-headers';
 
 /**
  * Enhanced Next.js middleware builder with plugin system.
  * Provides a flexible, extensible way to build middleware with
  * built-in support for routing, plugins, caching, logging, and more.
  */
-export class MiddlewareBuilder<T = any> {
+export class MiddlewareBuilder<
+  T = any,
+  X extends ContextExtension = {},
+> extends RouteCollection<T, '', X> {
   private routes: RouteDefinition<T>[] = [];
   private authPaths: string[] = [];
   private fetchUserFn: (req: NextRequest) => Promise<T | null>;
+  private loaders: Record<string, DataLoader<T>>;
   private plugins: Plugin<T>[] = [];
   private defaultMetadata: Record<string, any> = {};
+  private mode: 'first-match' | 'cascade';
+  private cascadeOrder: 'general-first' | 'specific-first';
+  private signIn: ResolvedSignInOptions;
+  private redirectTable: RedirectMapping<T>[] = [];
+  private rewriteTable: RewriteMapping<T>[] = [];
 
   constructor(options: MiddlewareBuilderOptions<T>) {
+    super({
+      prefix: '',
+      rules: [],
+      metadata: options.defaultMetadata || {},
+      plugins: [],
+    });
     this.fetchUserFn = options.fetchUser;
+    this.loaders = {};
+    for (const [name, load] of Object.entries(options.loaders ?? {})) {
+      this.loader(name, load);
+    }
     this.authPaths = options.authPaths || [];
     this.plugins = options.plugins || [];
     this.defaultMetadata = options.defaultMetadata || {};
+    this.mode = options.mode || 'first-match';
+    this.cascadeOrder = options.cascadeOrder || 'general-first';
+    this.signIn = {
+      signInUrl: options.signInUrl ?? defaultSignInOptions.signInUrl,
+      callbackParam:
+        options.callbackParam ?? defaultSignInOptions.callbackParam,
+      allowedRedirectOrigins: options.allowedRedirectOrigins ?? [],
+    };
   }
 
   /**
    * Add a plugin to the middleware pipeline.
    * Plugins are executed in the order they are added.
+   * The builder's context type is widened with the fields the plugin
+   * provides, so rules registered afterwards can read them.
    */
-  use(plugin: Plugin<T>): MiddlewareBuilder<T> {
-    this.plugins.push(plugin);
-    return this;
+  use<E extends ContextExtension = {}>(
+    plugin: Plugin<T, E>,
+  ): MiddlewareBuilder<T, X & E> {
+    this.plugins.push(plugin as Plugin<T>);
+    return this as unknown as MiddlewareBuilder<T, X & E>;
   }
 
   /**
    * Register additional paths that require authentication.
    * These paths will trigger error handling if user fetch fails.
    */
-  registerAuthPaths(paths: string[]): MiddlewareBuilder<T> {
+  registerAuthPaths(paths: string[]): this {
     this.authPaths.push(...paths);
     return this;
   }
 
   /**
-   * Add an exact route match.
-   * The path must match exactly for the rules to execute.
+   * Register a named data loader.
+   * Loaders run on demand through `context.load(name)`, at most once per
+   * request. `user` is reserved for `fetchUser`.
    */
-  exact(path: string, ...rules: MiddlewareRule<T>[]): MiddlewareBuilder<T> {
-    this.routes.push({
-      pattern: path,
-      rules,
-      priority: calculatePriority(path, true),
-      isExact: true,
-      metadata: { ...this.defaultMetadata },
-    });
+  loader<V>(name: string, load: DataLoader<T, V>): this {
+    if (name === 'user') {
+      throw new Error('Reserved data loader name: user (use fetchUser)');
+    }
+    this.loaders[name] = load;
     return this;
   }
 
   /**
-   * Add a prefix route match (wildcard).
-   * Any path starting with the prefix will match.
+   * Add entries to the redirect table.
+   * Redirects are checked in order after `beforeRequest` and before route
+   * matching, so they apply even to paths that rules would reject.
    */
-  prefix(
-    pathPrefix: string,
-    ...rules: MiddlewareRule<T>[]
-  ): MiddlewareBuilder<T> {
-    const cleanPrefix = pathPrefix.endsWith('/')
-      ? pathPrefix.slice(0, -1)
-      : pathPrefix;
-    this.routes.push({
-      pattern: pathPrefix,
-      rules,
-      priority: calculatePriority(pathPrefix, false),
-      isExact: false,
-      prefix: cleanPrefix,
-      metadata: { ...this.defaultMetadata },
-    });
+  redirects(entries: RedirectMapping<T>[]): this {
+    this.redirectTable.push(...entries);
     return this;
   }
 
   /**
-   * Add a route with custom configuration.
-   * Provides full control over route matching and metadata.
+   * Add entries to the rewrite table.
+   * Rewrites are checked in order once every rule has passed, so the rules
+   * of the source path still protect it.
    */
-  route(
-    path: string,
-    options: {
-      rules: MiddlewareRule<T>[];
-      isExact?: boolean;
-      metadata?: Record<string, any>;
-    },
-  ): MiddlewareBuilder<T> {
-    const isExact = options.isExact ?? true;
-    const cleanPrefix =
-      !isExact && path.endsWith('/') ? path.slice(0, -1) : undefined;
-
-    this.routes.push({
-      pattern: path,
-      rules: options.rules,
-      priority: calculatePriority(path, isExact),
-      isExact,
-      prefix: cleanPrefix,
-      metadata: { ...this.defaultMetadata, ...options.metadata },
-    });
+  rewrites(entries: RewriteMapping<T>[]): this {
+    this.rewriteTable.push(...entries);
     return this;
   }
 
+  protected addRoute(route: RouteDefinition<T>): void {
+    this.routes.push(route);
+  }
+
   /**
-   * Find the best matching route for the given path.
-   * Routes are sorted by priority (lower = higher precedence).
+   * Create the context for a request.
+   * Loaders are memoized per request, including failures.
    */
-  private findMatchingRoute(path: string): RouteDefinition<T> | null {
-    const sortedRoutes = [...this.routes].sort(
-      (a, b) => a.priority - b.priority,
-    );
-
-    for (const route of sortedRoutes) {
-      if (matchRoute(path, route.pattern, route.isExact, route.prefix)) {
-        return route;
-      }
+  private createContext(
+    req: NextRequest,
+    path: string,
+    matcher: RouteMatcher<T>,
+  ): MiddlewareContext<T> {
+    const loaded = new Map<string, Promise<any>>();
+    let user: { value: T | null } | null = null;
+
+    const context: MiddlewareContext<T> = {
+      get data() {
+        if (!user) {
+          throw new UserNotLoadedError();
+        }
+        return user.value;
+      },
+      req,
+      path,
+      params: {},
+      segments: {},
+      route: null,
+      metadata: { ...this.defaultMetadata },
+      responseHeaders: new Headers(),
+      responseCookies: createCookieJar(),
+      requestHeaders: new Headers(req.headers),
+      load: (name: string): Promise<any> => {
+        let result = loaded.get(name);
+        if (!result) {
+          result = this.runLoader(name, context);
+          if (name === 'user') {
+            result = result.then((value) => {
+              user = { value };
+              return value;
+            });
+          }
+          loaded.set(name, result);
+        }
+        return result;
+      },
+      redirectToSignIn: (options) =>
+        createSignInRedirect(req, { ...this.signIn, ...options }),
+      getCallbackUrl: () => getCallbackUrl(req, this.signIn),
+      getRouteMetadata: (method) => {
+        const request = new NextRequest(req, { method: method.toUpperCase() });
+        return this.mergeMetadata(
+          { ...this.defaultMetadata },
+          this.findRoutes(matcher, path, request),
+        );
+      },
+    };
+
+    return context;
+  }
+
+  private async runLoader(
+    name: string,
+    context: MiddlewareContext<T>,
+  ): Promise<any> {
+    if (name === 'user') {
+      const fetchUser = this.plugins.reduceRight<() => Promise<T | null>>(
+        (next, plugin) =>
+          plugin.fetchUser ? () => plugin.fetchUser!(context, next) : next,
+        () => this.fetchUserFn(context.req),
+      );
+      return fetchUser();
     }
 
-    return null;
+    const load = this.loaders[name];
+    if (!load) {
+      throw new Error(`Unknown data loader: ${name}`);
+    }
+    return load(context.req, context);
+  }
+
+  /**
+   * Whether the user must be loaded before running a rule.
+   */
+  private needsUser(route: RouteDefinition<T>, rule: MiddlewareRule<T>) {
+    if (route.needsUser !== undefined) {
+      return route.needsUser;
+    }
+    return getRuleInfo(rule)?.needsData !== false;
+  }
+
+  /**
+   * Find the routes whose rules run for the request, from the most to the
+   * least specific. Only the best match is returned unless cascading.
+   */
+  private findRoutes(
+    matcher: RouteMatcher<T>,
+    path: string,
+    req: NextRequest,
+  ): RouteMatch<T>[] {
+    if (this.mode === 'cascade') {
+      return matcher.matchAll(path, req);
+    }
+    const match = matcher.match(path, req);
+    return match ? [match] : [];
+  }
+
+  /**
+   * Merge the metadata of the matched routes over `metadata`, from the
+   * least to the most specific route.
+   */
+  private mergeMetadata(
+    metadata: Record<string, any>,
+    matches: RouteMatch<T>[],
+  ): Record<string, any> {
+    for (const { route } of [...matches].reverse()) {
+      metadata = { ...metadata, ...route.metadata };
+    }
+    return metadata;
   }
 
   /**
    * Execute plugin hooks safely with error handling.
    */
   private async executePluginHook<K extends keyof Plugin<T>>(
+    plugins: Plugin<T>[],
     hook: K,
     ...args: any[]
   ): Promise<void> {
-    for (const plugin of this.plugins) {
+    for (const plugin of plugins) {
       const hookFn = plugin[hook];
       if (hookFn && typeof hookFn === 'function') {
         try {
-          await (hookFn as any)(...args);
+          await (hookFn as Function).apply(plugin, args);
         } catch (error) {
           console.error(
             `Plugin ${plugin.name} error in ${String(hook)}:`,
@@ -155,14 +273,56 @@ export class MiddlewareBuilder<T = any> {
     }
   }
 
+  /**
+   * Run plugin hooks that may respond early (beforeRequest, beforeRules).
+   * The first plugin that returns a response short-circuits the request.
+   */
+  private async runShortCircuitHook(
+    plugins: Plugin<T>[],
+    hook: 'beforeRequest' | 'beforeRules',
+    context: MiddlewareContext<T>,
+  ): Promise<MiddlewareResult> {
+    for (const plugin of plugins) {
+      const hookFn = plugin[hook];
+      if (hookFn) {
+        try {
+          const result = await hookFn.call(plugin, context);
+          if (result) {
+            return result;
+          }
+        } catch (error) {
+          console.error(`Plugin ${plugin.name} error in ${hook}:`, error);
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Create the response used when no rule short-circuits the request.
+   * Rewrites to the updated path if a plugin changed `context.path`.
+   */
+  private continueRequest(
+    context: MiddlewareContext<T>,
+    originalPath: string,
+  ): NextResponse {
+    if (context.path === originalPath) {
+      return Responses.next();
+    }
+    const url = new URL(context.req.url);
+    url.pathname = context.path;
+    return NextResponse.rewrite(url);
+  }
+
   /**
    * Handle plugin errors and allow plugins to provide error responses.
    */
   private async handlePluginErrors(
+    plugins: Plugin<T>[],
     context: MiddlewareContext<T>,
     error: Error,
   ): Promise<MiddlewareResult> {
-    for (const plugin of this.plugins) {
+    for (const plugin of plugins) {
       if (plugin.onError) {
         try {
           const result = await plugin.onError(context, error);
@@ -177,68 +337,179 @@ export class MiddlewareBuilder<T = any> {
     return null;
   }
 
+  /**
+   * Apply the headers and cookies collected on the context to the final
+   * response.
+   */
+  private applyContextChanges(
+    context: MiddlewareContext<T>,
+    result: NextResponse | Response,
+  ): void {
+    context.responseHeaders.forEach((value, name) => {
+      if (name === 'set-cookie') {
+        result.headers.append(name, value);
+      } else {
+        result.headers.set(name, value);
+      }
+    });
+
+    for (const { name, value, options } of context.responseCookies.getAll()) {
+      result.headers.append(
+        'set-cookie',
+        serializeCookie(name, value, options),
+      );
+    }
+
+    forwardRequestHeaders(result, context.req, context.requestHeaders);
+  }
+
   /**
    * Build the final middleware handler.
    * Returns a function that can be used as Next.js middleware.
+   * Routes are compiled into a matcher once, so routes added after
+   * calling build() do not affect the returned handler.
    */
   build() {
+    const matcher: RouteMatcher<T> = new TrieRouteMatcher(this.routes);
+
     return async (req: NextRequest): Promise<NextResponse> => {
       const url = new URL(req.url);
       const path = url.pathname;
 
-      const context: MiddlewareContext<T> = {
-        data: null,
-        req,
-        path,
-        params: {},
-        metadata: { ...this.defaultMetadata },
+      const context = this.createContext(req, path, matcher);
+
+      // Route plugins join the pipeline once their route has matched.
+      let plugins = this.plugins;
+
+      // Never throws, so a failure here cannot reach the error handling
+      // below and turn the response into a sign-in redirect.
+      const finish = async (result: MiddlewareResult) => {
+        let response = result;
+        if (response) {
+          try {
+            response = withMutableHeaders(response);
+            this.applyContextChanges(context, response);
+          } catch (error) {
+            console.error('Failed to apply context changes:', error);
+          }
+        }
+        await this.executePluginHook(
+          plugins,
+          'afterRequest',
+          context,
+          response,
+        );
+        return response as NextResponse;
       };
 
       try {
-        await this.executePluginHook('beforeRequest', context);
+        const earlyResult = await this.runShortCircuitHook(
+          plugins,
+          'beforeRequest',
+          context,
+        );
+        if (earlyResult) {
+          return await finish(earlyResult);
+        }
+
+        const redirect = await resolvePathMapping(this.redirectTable, context);
+        if (redirect) {
+          const { permanent, statusCode } = redirect.entry;
+          return await finish(
+            Responses.redirect(redirect.url, req, {
+              status: statusCode ?? (permanent ? 308 : 307),
+            }),
+          );
+        }
+
+        const matches = this.findRoutes(matcher, path, req);
+        const mostSpecific = matches[0];
+        if (mostSpecific) {
+          context.params = mostSpecific.params;
+          context.segments = mostSpecific.segments;
+          context.route = mostSpecific.route.pattern;
+        }
+
+        context.metadata = this.mergeMetadata(context.metadata, matches);
 
-        const matchingRoute = this.findMatchingRoute(path);
-        if (!matchingRoute) {
-          const result = Responses.next();
-          await this.executePluginHook('afterRequest', context, result);
-          return result;
+        const routePlugins = [
+          ...new Set(matches.flatMap(({ route }) => route.plugins ?? [])),
+        ];
+        if (routePlugins.length) {
+          plugins = [...this.plugins, ...routePlugins];
+
+          const routeResult = await this.runShortCircuitHook(
+            routePlugins,
+            'beforeRequest',
+            context,
+          );
+          if (routeResult) {
+            return await finish(routeResult);
+          }
         }
 
-        context.params = extractParams(
-          path,
-          matchingRoute.pattern,
-          matchingRoute.isExact,
-          matchingRoute.prefix,
+        const matchedResult = await this.runShortCircuitHook(
+          plugins,
+          'beforeRules',
+          context,
         );
-        context.metadata = { ...context.metadata, ...matchingRoute.metadata };
+        if (matchedResult) {
+          return await finish(matchedResult);
+        }
 
-        context.data = await this.fetchUserFn(req);
+        const ordered =
+          this.cascadeOrder === 'general-first'
+            ? [...matches].reverse()
+            : matches;
 
-        for (const rule of matchingRoute.rules) {
-          await this.executePluginHook('beforeRule', context, rule);
+        for (const { route, params, segments } of ordered) {
+          context.params = params;
+          context.segments = segments;
+          context.route = route.pattern;
 
-          const result = await rule(context);
+          for (const rule of route.rules) {
+            if (this.needsUser(route, rule)) {
+              await context.load('user');
+            }
 
-          await this.executePluginHook('afterRule', context, rule, result);
+            await this.executePluginHook(plugins, 'beforeRule', context, rule);
 
-          if (result) {
-            await this.executePluginHook('afterRequest', context, result);
-            return result as NextResponse;
+            const result = await rule(context);
+
+            await this.executePluginHook(
+              plugins,
+              'afterRule',
+              context,
+              rule,
+              result,
+            );
+
+            if (result) {
+              return await finish(result);
+            }
           }
         }
 
-        const result = Responses.next();
-        await this.executePluginHook('afterRequest', context, result);
-        return result;
+        if (mostSpecific) {
+          context.params = mostSpecific.params;
+          context.segments = mostSpecific.segments;
+          context.route = mostSpecific.route.pattern;
+        }
+
+        const rewrite = await resolvePathMapping(this.rewriteTable, context);
+        if (rewrite) {
+          return await finish(Responses.rewrite(rewrite.url, req));
+        }
+        return await finish(this.continueRequest(context, path));
       } catch (error) {
         const pluginResult = await this.handlePluginErrors(
+          plugins,
           context,
           error as Error,
         );
-        if (pluginResult) {
-          return pluginResult as NextResponse;
+        if (!pluginResult && error instanceof UserNotLoadedError) {
+          throw error;
         }
-
         const isAuthPath = this.authPaths.some((authPath) => {
           if (authPath.endsWith('/*')) {
             const prefix = authPath.slice(0, -2);
@@ -247,12 +518,29 @@ export class MiddlewareBuilder<T = any> {
           return path === authPath;
         });
 
-        if (isAuthPath) {
-          return Responses.next();
-        }
+        const errorResult =
+          pluginResult ??
+          (isAuthPath || isSignInPage(req, this.signIn)
+            ? Responses.next()
+            : context.redirectToSignIn());
 
-        return Responses.redirect('/sign-in', req.url);
+        return await finish(errorResult);
       }
     };
   }
 }
+
+/**
+ * Responses from `Response.redirect()` or `fetch()` have immutable
+ * headers, so they are copied into a `NextResponse` before the context's
+ * headers and cookies are applied.
+ */
+function withMutableHeaders(response: NextResponse | Response): NextResponse {
+  if (response instanceof NextResponse) return response;
+
+  return new NextResponse(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
@@ -0,0 +1,52 @@
+import { MiddlewareContext, PathMapping } from '../types/core';
+import { matchRequestMatches } from '../utils/conditions';
+import { fillPathTemplate } from '../utils/path-template';
+import { matchPath } from '../utils/priority';
+
+/**
+ * Find the first entry of a redirect or rewrite table that applies to the
+ * request, and resolve its destination.
+ * Query parameters of the request are passed on, unless the destination
+ * sets them itself.
+ *
+ * @param entries - The table, in order of precedence
+ * @param context - The request context
+ * @returns The matching entry and destination URL, or null
+ */
+export async function resolvePathMapping<M extends PathMapping<any>>(
+  entries: M[],
+  context: MiddlewareContext<any>,
+): Promise<{ entry: M; url: URL } | null> {
+  for (const entry of entries) {
+    const match = matchPath(
+      context.path,
+      entry.source,
+      !entry.source.endsWith('/*'),
+    );
+    if (
+      !match ||
+      !matchRequestMatches(context.req, entry.has, entry.missing) ||
+      (entry.when && !(await entry.when(context, match.params)))
+    ) {
+      continue;
+    }
+
+    const destination = fillPathTemplate(entry.destination, {
+      ...match.params,
+      ...match.segments,
+    });
+    // A filled path must not turn into a protocol-relative URL.
+    if (destination.startsWith('//') && !entry.destination.startsWith('//')) {
+      continue;
+    }
+
+    const url = new URL(destination, context.req.url);
+    const own = new Set(url.searchParams.keys());
+    context.req.nextUrl.searchParams.forEach((value, name) => {
+      if (!own.has(name)) url.searchParams.append(name, value);
+    });
+    return { entry, url };
+  }
+
+  return null;
+}
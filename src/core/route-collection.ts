@@ -0,0 +1,281 @@
+import {
+  MiddlewareRule,
+  Plugin,
+  RouteDefinition,
+  RouteConditions,
+  RouteOptions,
+  RouteGroupOptions,
+  InferRouteParams,
+  PrefixRouteParams,
+  ContextExtension,
+} from '../types/core';
+import { calculatePriority } from '../utils/priority';
+
+/**
+ * Configuration inherited by every route registered in a collection.
+ */
+export interface RouteScope<T = any> {
+  /** Path prefix prepended to every route pattern */
+  prefix: string;
+  /** Rules executed before the route's own rules */
+  rules: MiddlewareRule<T>[];
+  /** Metadata merged below the route's own metadata */
+  metadata: Record<string, any>;
+  /** Plugins that only run for routes in this scope */
+  plugins: Plugin<T>[];
+  /** Conditions merged below the route's own conditions */
+  conditions?: RouteConditions;
+  /** Default for whether routes need the user */
+  needsUser?: boolean;
+}
+
+/**
+ * Base class for registering routes.
+ * Shared by `MiddlewareBuilder` and nested route groups, so every route
+ * registration method is available at any nesting level.
+ */
+export abstract class RouteCollection<
+  T = any,
+  Base extends string = '',
+  X extends ContextExtension = {},
+> {
+  constructor(protected scope: RouteScope<T>) {}
+
+  /**
+   * Store a fully resolved route definition.
+   */
+  protected abstract addRoute(route: RouteDefinition<T>): void;
+
+  /**
+   * Add an exact route match.
+   * The path must match exactly for the rules to execute.
+   * Supports dynamic segments such as `/users/[id]` and `/docs/[...slug]`.
+   */
+  exact<Path extends string>(
+    path: Path,
+    ...rules: MiddlewareRule<T, InferRouteParams<`${Base}${Path}`>, X>[]
+  ): this {
+    return this.registerRoute(path, { rules: rules as MiddlewareRule<T>[] });
+  }
+
+  /**
+   * Add a prefix route match (wildcard).
+   * Any path starting with the prefix will match.
+   * The remainder of the path is available as the `*` parameter.
+   */
+  prefix<Path extends string>(
+    pathPrefix: Path,
+    ...rules: MiddlewareRule<T, PrefixRouteParams<`${Base}${Path}`>, X>[]
+  ): this {
+    return this.registerRoute(pathPrefix, {
+      rules: rules as MiddlewareRule<T>[],
+      isExact: false,
+    });
+  }
+
+  /**
+   * Add a route with custom configuration.
+   * Provides full control over route matching and metadata.
+   */
+  route<Path extends string>(
+    path: Path,
+    options: RouteOptions<
+      T,
+      InferRouteParams<`${Base}${Path}`> &
+        Partial<PrefixRouteParams<`${Base}${Path}`>>,
+      X
+    >,
+  ): this {
+    return this.registerRoute(path, options as RouteOptions<T>);
+  }
+
+  /**
+   * Add an exact route that only matches GET and HEAD requests.
+   */
+  get<Path extends string>(
+    path: Path,
+    ...rules: MiddlewareRule<T, InferRouteParams<`${Base}${Path}`>, X>[]
+  ): this {
+    return this.methodRoute(path, rules, { method: ['GET', 'HEAD'] });
+  }
+
+  /**
+   * Add an exact route that only matches POST requests.
+   */
+  post<Path extends string>(
+    path: Path,
+    ...rules: MiddlewareRule<T, InferRouteParams<`${Base}${Path}`>, X>[]
+  ): this {
+    return this.methodRoute(path, rules, { method: 'POST' });
+  }
+
+  /**
+   * Add an exact route that only matches PUT requests.
+   */
+  put<Path extends string>(
+    path: Path,
+    ...rules: MiddlewareRule<T, InferRouteParams<`${Base}${Path}`>, X>[]
+  ): this {
+    return this.methodRoute(path, rules, { method: 'PUT' });
+  }
+
+  /**
+   * Add an exact route that only matches PATCH requests.
+   */
+  patch<Path extends string>(
+    path: Path,
+    ...rules: MiddlewareRule<T, InferRouteParams<`${Base}${Path}`>, X>[]
+  ): this {
+    return this.methodRoute(path, rules, { method: 'PATCH' });
+  }
+
+  /**
+   * Add an exact route that only matches DELETE requests.
+   */
+  delete<Path extends string>(
+    path: Path,
+    ...rules: MiddlewareRule<T, InferRouteParams<`${Base}${Path}`>, X>[]
+  ): this {
+    return this.methodRoute(path, rules, { method: 'DELETE' });
+  }
+
+  /**
+   * Resolve a route against the collection scope and store it.
+   */
+  protected registerRoute(path: string, options: RouteOptions<T>): this {
+    const pattern = joinPaths(this.scope.prefix, path);
+    const isExact = options.isExact ?? true;
+    const cleanPrefix =
+      !isExact && pattern.endsWith('/') ? pattern.slice(0, -1) : pattern;
+
+    this.addRoute({
+      pattern,
+      rules: [...this.scope.rules, ...options.rules],
+      priority: calculatePriority(pattern, isExact),
+      isExact,
+      prefix: isExact ? undefined : cleanPrefix,
+      metadata: { ...this.scope.metadata, ...options.metadata },
+      conditions: mergeConditions(this.scope.conditions, options.conditions),
+      plugins: this.scope.plugins.length ? this.scope.plugins : undefined,
+      needsUser: options.needsUser ?? this.scope.needsUser,
+    });
+    return this;
+  }
+
+  private methodRoute(
+    path: string,
+    rules: MiddlewareRule<T, any, X>[],
+    conditions: RouteConditions,
+  ): this {
+    return this.registerRoute(path, {
+      rules: rules as MiddlewareRule<T>[],
+      conditions,
+    });
+  }
+
+  /**
+   * Add a group of routes sharing a path prefix.
+   * Child routes inherit the group's leading rules, metadata, plugins and
+   * conditions. Groups can be nested.
+   */
+  group<Path extends string>(
+    path: Path,
+    define: (group: RouteGroup<T, `${Base}${Path}`, X>) => void,
+  ): this;
+  group<Path extends string>(
+    path: Path,
+    options: RouteGroupOptions<T, InferRouteParams<`${Base}${Path}`>, X>,
+    define: (group: RouteGroup<T, `${Base}${Path}`, X>) => void,
+  ): this;
+  group<Path extends string>(
+    path: Path,
+    optionsOrDefine:
+      | RouteGroupOptions<T, InferRouteParams<`${Base}${Path}`>, X>
+      | ((group: RouteGroup<T, `${Base}${Path}`, X>) => void),
+    define?: (group: RouteGroup<T, `${Base}${Path}`, X>) => void,
+  ): this {
+    const options =
+      typeof optionsOrDefine === 'function' ? {} : optionsOrDefine;
+    const callback =
+      typeof optionsOrDefine === 'function' ? optionsOrDefine : define!;
+
+    const group = new RouteGroup<T, `${Base}${Path}`, X>(
+      {
+        prefix: joinPaths(this.scope.prefix, path),
+        rules: [
+          ...this.scope.rules,
+          ...((options.rules ?? []) as MiddlewareRule<T>[]),
+        ],
+        metadata: { ...this.scope.metadata, ...options.metadata },
+        plugins: [...this.scope.plugins, ...(options.plugins ?? [])],
+        conditions: mergeConditions(this.scope.conditions, options.conditions),
+        needsUser: options.needsUser ?? this.scope.needsUser,
+      },
+      (route) => this.addRoute(route),
+    );
+
+    callback(group);
+    return this;
+  }
+}
+
+/**
+ * A nested set of routes created with `group()`.
+ */
+export class RouteGroup<
+  T = any,
+  Base extends string = '',
+  X extends ContextExtension = {},
+> extends RouteCollection<T, Base, X> {
+  constructor(
+    scope: RouteScope<T>,
+    private onRoute: (route: RouteDefinition<T>) => void,
+  ) {
+    super(scope);
+  }
+
+  protected addRoute(route: RouteDefinition<T>): void {
+    this.onRoute(route);
+  }
+}
+
+/**
+ * Join a group prefix and a child path.
+ * The child path `/` refers to the group prefix itself.
+ */
+function joinPaths(base: string, path: string): string {
+  if (!base) return path;
+
+  const trimmedBase = base.endsWith('/') ? base.slice(0, -1) : base;
+  if (path === '' || path === '/') return trimmedBase || '/';
+
+  return `${trimmedBase}${path.startsWith('/') ? path : `/${path}`}`;
+}
+
+/**
+ * Merge inherited conditions with a route's own conditions.
+ * Route values override inherited ones; header, query and cookie
+ * conditions are merged by name.
+ */
+function mergeConditions(
+  parent?: RouteConditions,
+  child?: RouteConditions,
+): RouteConditions | undefined {
+  if (!parent) return child;
+  if (!child) return parent;
+
+  return {
+    ...parent,
+    ...child,
+    headers: mergeRecords(parent.headers, child.headers),
+    query: mergeRecords(parent.query, child.query),
+    cookies: mergeRecords(parent.cookies, child.cookies),
+  };
+}
+
+function mergeRecords<V>(
+  parent?: Record<string, V>,
+  child?: Record<string, V>,
+): Record<string, V> | undefined {
+  return parent || child ? { ...parent, ...child } : undefined;
+}
@@ -0,0 +1,242 @@
+import { NextRequest } from 'next/server';
+import { RouteDefinition, RouteMatch } from '../types/core';
+import { matchPath, parseRoutePattern, splitPath } from '../utils/priority';
+import { countConditions, matchConditions } from '../utils/conditions';
+
+/**
+ * Resolves the route that should handle a request path.
+ */
+export interface RouteMatcher<T = any> {
+  /**
+   * Find the highest-precedence route matching the path.
+   * Routes with conditions only match when a request is given and
+   * satisfies them.
+   */
+  match(path: string, req?: NextRequest): RouteMatch<T> | null;
+  /**
+   * Find every route matching the path, from highest to lowest
+   * precedence.
+   */
+  matchAll(path: string, req?: NextRequest): RouteMatch<T>[];
+}
+
+/**
+ * Route registered in a matcher, with its registration order used to
+ * break priority ties.
+ */
+interface RouteEntry<T> {
+  route: RouteDefinition<T>;
+  index: number;
+  conditionCount: number;
+}
+
+/**
+ * Node of the route trie. Each level corresponds to one path segment.
+ */
+interface TrieNode<T> {
+  static: Map<string, TrieNode<T>>;
+  dynamic: TrieNode<T> | null;
+  /** Exact routes ending at this node */
+  exact: RouteEntry<T>[];
+  /** Prefix routes ending at this node */
+  prefix: RouteEntry<T>[];
+  /** Routes with a catch-all segment at this position */
+  catchAll: RouteEntry<T>[];
+  /** Routes with an optional catch-all segment at this position */
+  optionalCatchAll: RouteEntry<T>[];
+}
+
+/**
+ * Matcher that checks every route in priority order.
+ * Lookup cost grows with the number of routes.
+ */
+export class LinearRouteMatcher<T = any> implements RouteMatcher<T> {
+  private entries: RouteEntry<T>[];
+
+  constructor(routes: RouteDefinition<T>[]) {
+    this.entries = routes.map(createEntry).sort(compareEntries);
+  }
+
+  /**
+   * Find the best matching route for the given path.
+   */
+  match(path: string, req?: NextRequest): RouteMatch<T> | null {
+    for (const { route } of this.entries) {
+      const match = matchPath(
+        path,
+        route.prefix || route.pattern,
+        route.isExact,
+      );
+      if (match && satisfiesConditions(route, req)) {
+        return { route, ...match };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find every route matching the given path.
+   */
+  matchAll(path: string, req?: NextRequest): RouteMatch<T>[] {
+    const matches: RouteMatch<T>[] = [];
+
+    for (const { route } of this.entries) {
+      const match = matchPath(
+        path,
+        route.prefix || route.pattern,
+        route.isExact,
+      );
+      if (match && satisfiesConditions(route, req)) {
+        matches.push({ route, ...match });
+      }
+    }
+
+    return matches;
+  }
+}
+
+/**
+ * Matcher that compiles routes into a segment trie.
+ * Lookup cost depends on the depth of the path rather than the number of
+ * routes, while preserving the priority semantics of `LinearRouteMatcher`.
+ */
+export class TrieRouteMatcher<T = any> implements RouteMatcher<T> {
+  private root: TrieNode<T> = createNode();
+
+  constructor(routes: RouteDefinition<T>[]) {
+    routes.map(createEntry).forEach((entry) => this.insert(entry));
+  }
+
+  /**
+   * Find the best matching route for the given path.
+   * The first candidate whose conditions hold wins.
+   */
+  match(path: string, req?: NextRequest): RouteMatch<T> | null {
+    for (const { route } of this.collect(path)) {
+      if (satisfiesConditions(route, req)) {
+        return { route, ...this.extract(path, route) };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find every route matching the given path.
+   */
+  matchAll(path: string, req?: NextRequest): RouteMatch<T>[] {
+    return this.collect(path)
+      .filter(({ route }) => satisfiesConditions(route, req))
+      .map(({ route }) => ({ route, ...this.extract(path, route) }));
+  }
+
+  /**
+   * Collect candidate routes for a path from the trie, ranked by
+   * priority, then by condition count and registration order.
+   */
+  private collect(path: string): RouteEntry<T>[] {
+    const parts = splitPath(path);
+    const candidates: RouteEntry<T>[] = [];
+
+    const visit = (node: TrieNode<T>, depth: number) => {
+      candidates.push(...node.prefix, ...node.optionalCatchAll);
+
+      if (depth === parts.length) {
+        candidates.push(...node.exact);
+        return;
+      }
+
+      candidates.push(...node.catchAll);
+
+      const child = node.static.get(parts[depth]!);
+      if (child) {
+        visit(child, depth + 1);
+      }
+      if (node.dynamic) {
+        visit(node.dynamic, depth + 1);
+      }
+    };
+
+    visit(this.root, 0);
+    return candidates.sort(compareEntries);
+  }
+
+  private extract(path: string, route: RouteDefinition<T>) {
+    return matchPath(path, route.prefix || route.pattern, route.isExact)!;
+  }
+
+  /**
+   * Insert a route into the trie.
+   */
+  private insert(entry: RouteEntry<T>): void {
+    const { route } = entry;
+    let node = this.root;
+
+    for (const segment of parseRoutePattern(route.prefix || route.pattern)) {
+      if (segment.kind === 'catchAll') {
+        node.catchAll.push(entry);
+        return;
+      }
+      if (segment.kind === 'optionalCatchAll') {
+        node.optionalCatchAll.push(entry);
+        return;
+      }
+      if (segment.kind === 'dynamic') {
+        node = node.dynamic ??= createNode();
+        continue;
+      }
+
+      let child = node.static.get(segment.value);
+      if (!child) {
+        child = createNode();
+        node.static.set(segment.value, child);
+      }
+      node = child;
+    }
+
+    if (route.isExact) {
+      node.exact.push(entry);
+    } else {
+      node.prefix.push(entry);
+    }
+  }
+}
+
+function createNode<T>(): TrieNode<T> {
+  return {
+    static: new Map(),
+    dynamic: null,
+    exact: [],
+    prefix: [],
+    catchAll: [],
+    optionalCatchAll: [],
+  };
+}
+
+function createEntry<T>(
+  route: RouteDefinition<T>,
+  index: number,
+): RouteEntry<T> {
+  return { route, index, conditionCount: countConditions(route.conditions) };
+}
+
+/**
+ * Order entries by priority, then routes with more conditions first,
+ * then registration order.
+ */
+function compareEntries<T>(a: RouteEntry<T>, b: RouteEntry<T>): number {
+  return (
+    a.route.priority - b.route.priority ||
+    b.conditionCount - a.conditionCount ||
+    a.index - b.index
+  );
+}
+
+function satisfiesConditions<T>(
+  route: RouteDefinition<T>,
+  req?: NextRequest,
+): boolean {
+  if (!route.conditions) return true;
+  return req ? matchConditions(req, route.conditions) : false;
+}
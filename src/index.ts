@@ -6,14 +6,47 @@
 
 // Core middleware
 export { MiddlewareBuilder } from './core/middleware-builder';
+export { UserNotLoadedError } from './core/errors';
+export {
+  LinearRouteMatcher,
+  TrieRouteMatcher,
+  type RouteMatcher,
+} from './core/route-matcher';
 
 // Built-in plugins
 export { LoggingPlugin } from './plugins/logging/logging-plugin';
+export { LogSinks } from './plugins/logging/sinks';
 export { CachingPlugin } from './plugins/caching/caching-plugin';
 export { MemoryCacheStorage } from './plugins/caching/memory-storage';
+export { I18nPlugin } from './plugins/i18n/i18n-plugin';
+export { CorsPlugin } from './plugins/cors/cors-plugin';
+export { SecurityHeadersPlugin } from './plugins/security-headers/security-headers-plugin';
+export { FeatureFlagsPlugin } from './plugins/feature-flags/feature-flags-plugin';
+export { RequestIdPlugin } from './plugins/request-id/request-id-plugin';
 
 // Built-in rules
 export { Rules } from './rules/built-in-rules';
+export {
+  defineRule,
+  getRuleInfo,
+  describeRule,
+  getDecidingRule,
+} from './rules/rule-info';
+export { allOf, anyOf, not, when, unless } from './rules/combinators';
+
+// Authentication
+export { AuthProviders } from './auth/providers';
+export { AuthError } from './auth/errors';
+export { createJwtVerifier, verifyJwt } from './auth/jwt';
+export { sealSession, unsealSession } from './auth/session';
+
+// Authorization
+export { Policy, matchPermission } from './authorization/policy';
+
+// Rate limiting
+export { RateLimiter } from './rate-limit/rate-limiter';
+export { MemoryRateLimitStorage } from './rate-limit/memory-storage';
+export { RateLimitKeys, getClientIp } from './rate-limit/keys';
 
 // Response helpers
 export { Responses } from './responses/response-helpers';
@@ -24,7 +57,13 @@ export { Middleware };
 export default Middleware;
 
 // Type exports
-export * from './types';
+export * from './types/index';
 
 // Utility exports
 export * from './utils/priority';
+export * from './utils/conditions';
+export {
+  isSafeRedirect,
+  getCallbackUrl,
+  createSignInRedirect,
+} from './utils/redirects';
@@ -7,6 +7,7 @@ import {
   ParamsObject,
   ExtractParams,
 } from '../types/legacy';
+import { fillPathTemplate } from '../utils/path-template';
 
 /**
  * Legacy Middleware class for backward compatibility.
@@ -108,17 +109,7 @@ export class Middleware<R extends Record<string, { path: string }>, T = any> {
         redirectPath = path;
         if (options) {
           if ('params' in options) {
-            const params = options.params;
-            const pathParts = path.split('/');
-            const newPathParts = pathParts.map((part) => {
-              if (part.startsWith('[') && part.endsWith(']')) {
-                const key = part.slice(1, -1);
-                return params[key as keyof typeof params];
-              }
-              return part;
-            });
-            const newPath = newPathParts.join('/');
-            redirectPath = newPath;
+            redirectPath = fillPathTemplate(path, options.params);
           }
           if (options.query) {
             const searchParams = new URLSearchParams(options.query);
@@ -1,56 +1,253 @@
-import { Plugin, MiddlewareContext, MiddlewareResult } from '../../types/core';
-import { CachingPluginOptions, CacheStorage } from './types';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  MiddlewareResult,
+  MiddlewareRule,
+  Plugin,
+  PluginContext,
+} from '../../types/core';
+import { base64UrlEncode, toBytes } from '../../auth/encoding';
+import { matchPattern } from '../../utils/priority';
+import {
+  CachingPluginOptions,
+  CacheStorage,
+  CachingContextExtension,
+  CachedResponse,
+  ResponseCacheOptions,
+} from './types';
 import { MemoryCacheStorage } from './memory-storage';
 
 /**
- * Caching plugin that provides request-level caching for middleware.
- * Caches user data and other context information to improve performance.
+ * Caching plugin that caches the `fetchUser` result per session.
+ * Users are stored under a SHA-256 hash of the session credential, so raw
+ * tokens never reach the storage and users never share an entry. On a
+ * hit, `fetchUser` is not called.
+ * Routes that set `metadata.responseCache` also cache the response their
+ * rules return, and serve it without running the rules.
  */
-export class CachingPlugin<T = any> implements Plugin<T> {
+export class CachingPlugin<T = any>
+  implements Plugin<T, CachingContextExtension>
+{
+  declare readonly provides?: CachingContextExtension;
   name = 'caching';
-  private options: Required<CachingPluginOptions>;
+  private options: Required<Omit<CachingPluginOptions, 'keyGenerator'>>;
   private storage: CacheStorage;
+  private loggingOut = new WeakSet<PluginContext<T>>();
+  private userLoaded = new WeakSet<PluginContext<T>>();
+  private responseKeys = new WeakMap<
+    PluginContext<T>,
+    { key: string; ttl: number; varyUser: boolean; stored: boolean }
+  >();
 
   constructor(options: CachingPluginOptions = {}) {
+    const { keyGenerator, ...rest } = options;
+    if (keyGenerator) {
+      console.warn(
+        'CachingPlugin: `keyGenerator` is ignored. Use `credential` to identify the session.',
+      );
+    }
+
+    const sessionCookie = options.sessionCookie ?? 'session';
+
     this.options = {
       enabled: true,
       ttl: 300000, // 5 minutes default
-      keyGenerator: (req) => `middleware:${req.url}`,
+      // Other cookies, such as preferences or analytics ids, are not part
+      // of the session, so the whole Cookie header would split entries.
+      credential: (req) =>
+        req.headers.get('authorization') ??
+        req.cookies.get(sessionCookie)?.value,
+      sessionCookie,
+      prefix: 'user:',
+      logoutPaths: [],
       storage: new MemoryCacheStorage(),
-      ...options,
+      responseCache: {},
+      ...rest,
     };
     this.storage = this.options.storage;
   }
 
   /**
    * Called before request processing begins.
-   * Attempts to retrieve cached data if available.
+   * Removes the cached user on logout paths, and keeps the request from
+   * caching it again.
    */
-  async beforeRequest(context: MiddlewareContext<T>): Promise<void> {
+  async beforeRequest(
+    context: PluginContext<T, CachingContextExtension>,
+  ): Promise<void> {
+    context.cached = false;
+    context.responseCached = false;
     if (!this.options.enabled) return;
 
-    const cacheKey = this.options.keyGenerator(context.req);
-    const cached = await this.storage.get(cacheKey);
+    const isLogout = this.options.logoutPaths.some(
+      (pattern) =>
+        matchPattern(context.path, pattern, !pattern.endsWith('/*')) !== null,
+    );
+    if (isLogout) {
+      this.loggingOut.add(context);
+      await this.invalidate(context.req);
+    }
+  }
+
+  /**
+   * Called when the user is loaded.
+   * Serves the user from the cache, or fetches and caches it.
+   */
+  async fetchUser(
+    context: PluginContext<T, CachingContextExtension>,
+    next: () => Promise<T | null>,
+  ): Promise<T | null> {
+    this.userLoaded.add(context);
+
+    const key =
+      this.options.enabled && !this.loggingOut.has(context)
+        ? await this.getKey(context.req)
+        : null;
+    if (!key) return next();
 
-    if (cached) {
+    const cached = await this.storage.get(key);
+    if (cached !== null && cached !== undefined) {
+      context.cached = true;
       context.metadata.cached = true;
-      context.data = cached;
+      return cached;
     }
+
+    const user = await next();
+    if (user) {
+      await this.storage.set(key, user, this.options.ttl);
+    }
+    return user;
   }
 
   /**
-   * Called after request processing completes.
-   * Stores data in cache if not already cached and no redirect occurred.
+   * Called after route matching.
+   * Serves the route's cached response, if any, instead of running the
+   * rules.
    */
-  async afterRequest(
-    context: MiddlewareContext<T>,
+  async beforeRules(
+    context: PluginContext<T, CachingContextExtension>,
+  ): Promise<MiddlewareResult> {
+    const options = this.getResponseCacheOptions(context);
+    if (!options) return null;
+
+    const key = await this.getResponseKey(context, options);
+    const cached: CachedResponse | null = await this.storage.get(key);
+    if (cached) {
+      context.responseCached = true;
+      return new NextResponse(cached.body || null, {
+        status: cached.status,
+        headers: cached.headers,
+      });
+    }
+
+    this.responseKeys.set(context, {
+      key,
+      ttl: options.ttl ?? this.options.ttl,
+      varyUser: Boolean(options.vary?.user),
+      stored: false,
+    });
+    return null;
+  }
+
+  /**
+   * Called after each rule execution.
+   * Caches the first response the rules return, before other plugins and
+   * the context add request-specific headers to it. Only responses that
+   * answer the request are cached, not ones that continue or rewrite it,
+   * and responses that depended on the user only when the key varies by
+   * user.
+   */
+  async afterRule(
+    context: PluginContext<T, CachingContextExtension>,
+    _rule: MiddlewareRule<T>,
     result: MiddlewareResult,
   ): Promise<void> {
-    if (!this.options.enabled || context.metadata.cached) return;
+    const pending = this.responseKeys.get(context);
+    if (!pending || pending.stored || !result) return;
+    pending.stored = true;
 
-    if (context.data && !result?.headers.get('location')) {
-      const cacheKey = this.options.keyGenerator(context.req);
-      await this.storage.set(cacheKey, context.data, this.options.ttl);
+    // Cookies may belong to one user, so those responses are not shared.
+    if (result.headers.has('set-cookie')) return;
+    // Continuing or rewriting responses carry no content of their own, and
+    // replaying them would skip the rules that let the request through.
+    if (
+      [...result.headers.keys()].some((name) =>
+        name.startsWith('x-middleware-'),
+      )
+    ) {
+      return;
     }
+    if (this.userLoaded.has(context) && !pending.varyUser) return;
+
+    const response: CachedResponse = {
+      status: result.status,
+      headers: [...result.headers],
+      body: await result.clone().text(),
+    };
+    await this.storage.set(pending.key, response, pending.ttl);
   }
+
+  /**
+   * Remove the cached user for the request's credential, e.g. from a
+   * logout route handler.
+   */
+  async invalidate(req: NextRequest): Promise<void> {
+    const key = await this.getKey(req);
+    if (key) {
+      await this.storage.delete(key);
+    }
+  }
+
+  private async getKey(req: NextRequest): Promise<string | null> {
+    const credential = this.options.credential(req);
+    if (!credential) return null;
+
+    return this.options.prefix + (await hash(credential));
+  }
+
+  /**
+   * Response caching settings for the route, or null if its responses
+   * are not cached. Only `GET` and `HEAD` responses are cached.
+   */
+  private getResponseCacheOptions(
+    context: PluginContext<T>,
+  ): ResponseCacheOptions | null {
+    const setting: ResponseCacheOptions | boolean | undefined =
+      context.metadata.responseCache;
+    if (!this.options.enabled || !setting) return null;
+    if (!['GET', 'HEAD'].includes(context.req.method.toUpperCase())) {
+      return null;
+    }
+
+    const defaults = this.options.responseCache;
+    return setting === true ? defaults : { ...defaults, ...setting };
+  }
+
+  /**
+   * Key of the cached response: a hash of the host, the path and the
+   * inputs the response varies by.
+   */
+  private async getResponseKey(
+    context: PluginContext<T>,
+    { vary = {} }: ResponseCacheOptions,
+  ): Promise<string> {
+    const { req } = context;
+    const inputs: unknown[] = [
+      req.nextUrl.host,
+      context.path,
+      vary.headers?.map((name) => req.headers.get(name)),
+      vary.cookies?.map((name) => req.cookies.get(name)?.value ?? null),
+      vary.query?.map((name) => req.nextUrl.searchParams.getAll(name)),
+    ];
+    if (vary.user) {
+      const user = await context.load('user');
+      inputs.push(user ? vary.user(user) : null);
+    }
+
+    return `response:${await hash(JSON.stringify(inputs))}`;
+  }
+}
+
+async function hash(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', toBytes(value));
+  return base64UrlEncode(new Uint8Array(digest));
 }
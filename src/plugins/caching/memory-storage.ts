@@ -1,38 +1,173 @@
-import { CacheStorage } from './types';
+import {
+  CacheSetOptions,
+  CacheStats,
+  CacheStorage,
+  MemoryCacheStorageOptions,
+} from './types';
+
+interface CacheEntry {
+  value: any;
+  expires: number;
+  size: number;
+  tags: string[];
+}
 
 /**
  * In-memory cache storage implementation.
- * Uses a Map to store cached values with automatic expiration.
- * Suitable for development and single-instance deployments.
+ * Holds at most `maxEntries` entries (and `maxBytes`, when set), evicting
+ * the least recently used entry when full, and sweeps expired entries
+ * periodically. Suitable for development and single-instance deployments.
  */
 export class MemoryCacheStorage implements CacheStorage {
-  private cache = new Map<string, { value: any; expires: number }>();
+  private cache = new Map<string, CacheEntry>();
+  private tags = new Map<string, Set<string>>();
+  private revalidating = new Map<string, Promise<any>>();
+  private options: Required<Omit<MemoryCacheStorageOptions, 'maxBytes'>> &
+    Pick<MemoryCacheStorageOptions, 'maxBytes'>;
+  private sweepTimer: ReturnType<typeof setInterval> | null = null;
+  private bytes = 0;
+  private counters = {
+    hits: 0,
+    staleHits: 0,
+    misses: 0,
+    evictions: 0,
+    expirations: 0,
+  };
+
+  constructor(options: MemoryCacheStorageOptions = {}) {
+    this.options = {
+      maxEntries: 10000,
+      sizeOf: (value) => (JSON.stringify(value)?.length ?? 0) * 2,
+      sweepInterval: 60000,
+      staleWhileRevalidate: 0,
+      ...options,
+    };
+  }
 
   /**
-   * Retrieve a value from the cache
+   * Retrieve a value from the cache, marking it as recently used
    */
   async get(key: string): Promise<any> {
-    const item = this.cache.get(key);
-    if (!item || item.expires < Date.now()) {
-      this.cache.delete(key);
+    const entry = this.read(key);
+    if (!entry || entry.expires <= Date.now()) {
+      this.counters.misses++;
       return null;
     }
-    return item.value;
+    this.counters.hits++;
+    return entry.value;
   }
 
   /**
-   * Store a value in the cache with optional TTL
+   * Retrieve several values from the cache
    */
-  async set(key: string, value: any, ttl?: number): Promise<void> {
+  async getMany(keys: string[]): Promise<any[]> {
+    return Promise.all(keys.map((key) => this.get(key)));
+  }
+
+  /**
+   * Whether a fresh value is cached, without counting a read
+   */
+  async has(key: string): Promise<boolean> {
+    const entry = this.cache.get(key);
+    return Boolean(entry && entry.expires > Date.now());
+  }
+
+  /**
+   * Store a value in the cache with optional TTL, evicting the least
+   * recently used entries if the cache is full
+   */
+  async set(
+    key: string,
+    value: any,
+    ttl?: number,
+    options: CacheSetOptions = {},
+  ): Promise<void> {
+    this.remove(key);
+
+    const size = this.options.maxBytes ? this.options.sizeOf(value) : 0;
+    if (this.options.maxBytes && size > this.options.maxBytes) {
+      return;
+    }
+
     const expires = ttl ? Date.now() + ttl : Date.now() + 3600000;
-    this.cache.set(key, { value, expires });
+    const tags = options.tags ?? [];
+    this.cache.set(key, { value, expires, size, tags });
+    this.bytes += size;
+    for (const tag of tags) {
+      let keys = this.tags.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.tags.set(tag, keys);
+      }
+      keys.add(key);
+    }
+
+    this.evict();
+    this.startSweeping();
+  }
+
+  /**
+   * Return the cached value, or load and cache it on a miss.
+   * Within the `staleWhileRevalidate` window after expiry, the stale value
+   * is returned at once and reloaded in the background.
+   */
+  async getOrSet<V>(
+    key: string,
+    load: () => Promise<V> | V,
+    ttl?: number,
+    options?: CacheSetOptions,
+  ): Promise<V> {
+    const entry = this.read(key);
+    const now = Date.now();
+
+    if (entry && entry.expires > now) {
+      this.counters.hits++;
+      return entry.value;
+    }
+
+    const reload = () => {
+      let pending = this.revalidating.get(key);
+      if (!pending) {
+        pending = Promise.resolve()
+          .then(load)
+          .then(async (value) => {
+            await this.set(key, value, ttl, options);
+            return value;
+          })
+          .finally(() => this.revalidating.delete(key));
+        this.revalidating.set(key, pending);
+      }
+      return pending;
+    };
+
+    if (entry && entry.expires + this.options.staleWhileRevalidate > now) {
+      this.counters.staleHits++;
+      reload().catch(() => {
+        // The stale value stays until the window ends.
+      });
+      return entry.value;
+    }
+
+    this.counters.misses++;
+    return reload();
   }
 
   /**
    * Delete a specific value from the cache
    */
   async delete(key: string): Promise<void> {
-    this.cache.delete(key);
+    this.remove(key);
+  }
+
+  /**
+   * Delete every value stored with any of the tags
+   */
+  async invalidateTags(tags: string[]): Promise<void> {
+    for (const tag of tags) {
+      for (const key of [...(this.tags.get(tag) ?? [])]) {
+        this.remove(key);
+      }
+    }
   }
 
   /**
@@ -40,5 +175,94 @@ export class MemoryCacheStorage implements CacheStorage {
    */
   async clear(): Promise<void> {
     this.cache.clear();
+    this.tags.clear();
+    this.bytes = 0;
+  }
+
+  /**
+   * Remove expired entries, including those past their stale window
+   */
+  sweep(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.cache) {
+      if (entry.expires + this.options.staleWhileRevalidate <= now) {
+        this.remove(key);
+        this.counters.expirations++;
+      }
+    }
+  }
+
+  /**
+   * Cache counters and current size
+   */
+  stats(): CacheStats {
+    return { ...this.counters, size: this.cache.size, bytes: this.bytes };
+  }
+
+  /**
+   * Stop the sweep timer, e.g. before discarding the storage
+   */
+  dispose(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  /**
+   * Read an entry and mark it as recently used. Entries past their stale
+   * window are removed.
+   */
+  private read(key: string): CacheEntry | null {
+    const entry = this.cache.get(key);
+    if (!entry) return null;
+
+    if (entry.expires + this.options.staleWhileRevalidate <= Date.now()) {
+      this.remove(key);
+      this.counters.expirations++;
+      return null;
+    }
+    this.cache.delete(key);
+    this.cache.set(key, entry);
+    return entry;
+  }
+
+  private remove(key: string): void {
+    const entry = this.cache.get(key);
+    if (!entry) return;
+
+    this.cache.delete(key);
+    this.bytes -= entry.size;
+    for (const tag of entry.tags) {
+      const keys = this.tags.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) this.tags.delete(tag);
+    }
+  }
+
+  private evict(): void {
+    const { maxEntries, maxBytes } = this.options;
+    while (
+      this.cache.size > maxEntries ||
+      (maxBytes !== undefined && this.bytes > maxBytes)
+    ) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest === undefined) return;
+      this.remove(oldest);
+      this.counters.evictions++;
+    }
+  }
+
+  /**
+   * Start the sweep timer on first use, without keeping the process alive.
+   */
+  private startSweeping(): void {
+    if (this.sweepTimer || this.options.sweepInterval <= 0) return;
+
+    this.sweepTimer = setInterval(
+      () => this.sweep(),
+      this.options.sweepInterval,
+    );
+    (this.sweepTimer as { unref?: () => void }).unref?.();
   }
 }
@@ -8,22 +8,160 @@ export interface CachingPluginOptions {
   enabled?: boolean;
   /** Time to live in milliseconds */
   ttl?: number;
-  /** Function to generate cache keys */
+  /**
+   * Read the session credential, such as a session cookie or bearer
+   * token. Users are cached under a hash of it, and requests without one
+   * are not cached. Defaults to the `Authorization` header, or the
+   * `sessionCookie` cookie.
+   */
+  credential?: (req: NextRequest) => string | null | undefined;
+  /**
+   * Cookie holding the session, read by the default `credential`
+   * (default 'session', as for `AuthProviders.session`)
+   */
+  sessionCookie?: string;
+  /**
+   * @deprecated Ignored, with a warning. Keys used to be derived from the
+   * request, often its URL, which would share one user's data with
+   * everyone; use `credential` to identify the session instead.
+   */
   keyGenerator?: (req: NextRequest) => string;
+  /** Prefix of cache keys */
+  prefix?: string;
+  /**
+   * Paths that end the session, such as `/logout` or `/api/auth/*`.
+   * Requests to them remove the cached user before the rules run.
+   */
+  logoutPaths?: string[];
   /** Storage implementation for caching */
   storage?: CacheStorage;
+  /**
+   * Defaults for caching rule responses. Routes opt in with
+   * `metadata.responseCache`, set to `true` or to options overriding these.
+   */
+  responseCache?: ResponseCacheOptions;
 }
 
 /**
- * Interface for cache storage implementations
+ * Request inputs a cached response varies by. The host and path are always
+ * included.
+ */
+export interface ResponseCacheVary {
+  /** Request headers, e.g. `accept-language` */
+  headers?: string[];
+  /** Cookies, e.g. a region cookie */
+  cookies?: string[];
+  /** Query parameters */
+  query?: string[];
+  /**
+   * Attribute of the user, e.g. their role; loads the user. Required for
+   * responses of rules that read the user, which are otherwise not cached.
+   */
+  user?: (user: any) => unknown;
+}
+
+/**
+ * Settings for caching the responses of a route's rules
+ */
+export interface ResponseCacheOptions {
+  /** Time to live in milliseconds (defaults to the plugin's `ttl`) */
+  ttl?: number;
+  /** Inputs the response varies by */
+  vary?: ResponseCacheVary;
+}
+
+/**
+ * A rule response stored in the cache
+ */
+export interface CachedResponse {
+  status: number;
+  headers: [string, string][];
+  body: string;
+}
+
+/**
+ * Fields the caching plugin adds to the middleware context
+ */
+export interface CachingContextExtension {
+  /** Whether the user data was served from the cache */
+  cached: boolean;
+  /** Whether the response was served from the cache without running the rules */
+  responseCached: boolean;
+}
+
+/**
+ * Options for storing a cache entry
+ */
+export interface CacheSetOptions {
+  /** Tags for invalidating related entries together */
+  tags?: string[];
+}
+
+/**
+ * Interface for cache storage implementations.
+ * The optional methods let callers batch reads and invalidate by tag when
+ * the storage supports it.
  */
 export interface CacheStorage {
   /** Retrieve a value from cache */
   get(key: string): Promise<any> | any;
   /** Store a value in cache */
-  set(key: string, value: any, ttl?: number): Promise<void> | void;
+  set(
+    key: string,
+    value: any,
+    ttl?: number,
+    options?: CacheSetOptions,
+  ): Promise<void> | void;
   /** Delete a value from cache */
   delete(key: string): Promise<void> | void;
   /** Clear all cached values */
   clear(): Promise<void> | void;
+  /** Retrieve several values, with null for each miss */
+  getMany?(keys: string[]): Promise<any[]> | any[];
+  /** Whether a value is cached for the key */
+  has?(key: string): Promise<boolean> | boolean;
+  /** Delete every value stored with any of the tags */
+  invalidateTags?(tags: string[]): Promise<void> | void;
+}
+
+/**
+ * Configuration options for the in-memory cache storage
+ */
+export interface MemoryCacheStorageOptions {
+  /** Maximum number of entries before the least recently used is evicted */
+  maxEntries?: number;
+  /** Maximum estimated size of all values, in bytes */
+  maxBytes?: number;
+  /** Estimate the size of a value in bytes (defaults to its JSON length) */
+  sizeOf?: (value: any) => number;
+  /**
+   * How often expired entries are removed, in milliseconds, or 0 to only
+   * remove them when read or evicted
+   */
+  sweepInterval?: number;
+  /**
+   * How long after expiry `getOrSet` may still serve a value while it
+   * reloads it in the background, in milliseconds
+   */
+  staleWhileRevalidate?: number;
+}
+
+/**
+ * Counters reported by `MemoryCacheStorage.stats()`
+ */
+export interface CacheStats {
+  /** Reads served a fresh value */
+  hits: number;
+  /** Reads served a stale value while it was reloaded */
+  staleHits: number;
+  /** Reads that found no usable value */
+  misses: number;
+  /** Entries removed to stay within the size limits */
+  evictions: number;
+  /** Entries removed because they expired */
+  expirations: number;
+  /** Current number of entries */
+  size: number;
+  /** Current estimated size of all values, in bytes */
+  bytes: number;
 }
@@ -0,0 +1,153 @@
+import { NextResponse } from 'next/server';
+import { Plugin, MiddlewareContext, MiddlewareResult } from '../../types/core';
+import { CorsPluginOptions, CorsPolicy } from './types';
+
+type ResolvedCorsOptions = CorsPluginOptions &
+  Required<
+    Pick<
+      CorsPluginOptions,
+      'enabled' | 'origin' | 'methods' | 'credentials' | 'preflightStatus'
+    >
+  >;
+
+/**
+ * CORS plugin that answers preflight requests and adds
+ * `Access-Control-*` headers to every response.
+ * Routes can override the policy with `metadata.cors`, or opt out with
+ * `metadata.cors = false`.
+ */
+export class CorsPlugin<T = any> implements Plugin<T> {
+  name = 'cors';
+  private options: ResolvedCorsOptions;
+
+  constructor(options: CorsPluginOptions = {}) {
+    this.options = {
+      enabled: true,
+      origin: '*',
+      methods: ['GET', 'HEAD', 'PUT', 'PATCH', 'POST', 'DELETE'],
+      credentials: false,
+      preflightStatus: 204,
+      ...options,
+    };
+  }
+
+  /**
+   * Called once the route is matched.
+   * Answers preflight requests before any rule runs, with the policy of
+   * the route matching the method the preflight asks about.
+   */
+  async beforeRules(context: MiddlewareContext<T>): Promise<MiddlewareResult> {
+    const requestedMethod = getPreflightMethod(context);
+    if (!requestedMethod) return null;
+
+    const policy = this.getPolicy(context.getRouteMetadata(requestedMethod));
+    if (!policy) return null;
+
+    const response = new NextResponse(null, {
+      status: this.options.preflightStatus,
+    });
+    const { headers } = response;
+    const allowOrigin = await this.getAllowedOrigin(context, policy);
+
+    headers.append('Vary', 'Origin, Access-Control-Request-Headers');
+    if (!allowOrigin) return response;
+
+    headers.set('Access-Control-Allow-Origin', allowOrigin);
+    if (policy.credentials) {
+      headers.set('Access-Control-Allow-Credentials', 'true');
+    }
+    headers.set('Access-Control-Allow-Methods', policy.methods.join(', '));
+
+    const allowedHeaders =
+      policy.allowedHeaders?.join(', ') ??
+      context.req.headers.get('access-control-request-headers');
+    if (allowedHeaders) {
+      headers.set('Access-Control-Allow-Headers', allowedHeaders);
+    }
+    if (policy.maxAge !== undefined) {
+      headers.set('Access-Control-Max-Age', String(policy.maxAge));
+    }
+
+    return response;
+  }
+
+  /**
+   * Called after request processing completes.
+   * Adds CORS headers to the response, whichever rule produced it.
+   */
+  async afterRequest(
+    context: MiddlewareContext<T>,
+    result: MiddlewareResult,
+  ): Promise<void> {
+    const policy = this.getPolicy(context.metadata);
+    if (!policy || !result || getPreflightMethod(context)) return;
+
+    const { headers } = result;
+    const allowOrigin = await this.getAllowedOrigin(context, policy);
+
+    if (allowOrigin !== '*') {
+      headers.append('Vary', 'Origin');
+    }
+    if (!allowOrigin) return;
+
+    headers.set('Access-Control-Allow-Origin', allowOrigin);
+    if (policy.credentials) {
+      headers.set('Access-Control-Allow-Credentials', 'true');
+    }
+    if (policy.exposedHeaders?.length) {
+      headers.set(
+        'Access-Control-Expose-Headers',
+        policy.exposedHeaders.join(', '),
+      );
+    }
+  }
+
+  /**
+   * Merge the route's `cors` metadata over the plugin options.
+   */
+  private getPolicy(metadata: Record<string, any>): ResolvedCorsOptions | null {
+    if (!this.options.enabled) return null;
+
+    const override: CorsPolicy | false | undefined = metadata.cors;
+    if (override === false) return null;
+
+    return { ...this.options, ...override };
+  }
+
+  /**
+   * Value for `Access-Control-Allow-Origin`, or null if the request origin
+   * is not allowed. Credentialed responses always echo the origin, as
+   * browsers reject `*` for them.
+   */
+  private async getAllowedOrigin(
+    context: MiddlewareContext<T>,
+    policy: ResolvedCorsOptions,
+  ): Promise<string | null> {
+    const { origin } = policy;
+    const requestOrigin = context.req.headers.get('origin');
+
+    if (origin === '*' && !policy.credentials) return '*';
+    if (!requestOrigin) return null;
+    if (origin === '*') return requestOrigin;
+
+    const allowed =
+      typeof origin === 'function'
+        ? await origin(requestOrigin, context)
+        : (Array.isArray(origin) ? origin : [origin]).some((candidate) =>
+            typeof candidate === 'string'
+              ? candidate === requestOrigin
+              : candidate.test(requestOrigin),
+          );
+
+    return allowed ? requestOrigin : null;
+  }
+}
+
+/**
+ * Method a preflight request asks about, or null if the request is not a
+ * preflight.
+ */
+function getPreflightMethod(context: MiddlewareContext): string | null {
+  if (context.req.method !== 'OPTIONS') return null;
+  return context.req.headers.get('access-control-request-method');
+}
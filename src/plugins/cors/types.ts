@@ -0,0 +1,46 @@
+import { MiddlewareContext } from '../../types/core';
+
+/**
+ * Allowed origin: an exact origin, a pattern, or a function deciding per
+ * request. `*` allows any origin.
+ */
+export type CorsOrigin =
+  | string
+  | RegExp
+  | (string | RegExp)[]
+  | ((
+      origin: string,
+      context: MiddlewareContext,
+    ) => boolean | Promise<boolean>);
+
+/**
+ * CORS policy settings. Routes can override them through the `cors`
+ * metadata key, or disable CORS with `cors: false`.
+ */
+export interface CorsPolicy {
+  /** Allowed origins (defaults to `*`) */
+  origin?: CorsOrigin;
+  /** Methods allowed in preflight responses */
+  methods?: string[];
+  /**
+   * Request headers allowed in preflight responses.
+   * Defaults to the headers the preflight asks for.
+   */
+  allowedHeaders?: string[];
+  /** Response headers exposed to the browser */
+  exposedHeaders?: string[];
+  /** Whether to allow credentials (cookies, authorization headers) */
+  credentials?: boolean;
+  /** How long browsers may cache preflight responses, in seconds */
+  maxAge?: number;
+}
+
+/**
+ * Configuration options for the CORS plugin
+ */
+export interface CorsPluginOptions extends CorsPolicy {
+  /** Whether CORS handling is enabled */
+  enabled?: boolean;
+  /** Status code of preflight responses */
+  preflightStatus?: number;
+}
@@ -0,0 +1,201 @@
+import { MiddlewareContext, Plugin, PluginContext } from '../../types/core';
+import {
+  FeatureFlagsContextExtension,
+  FeatureFlagsPluginOptions,
+  FlagDefinition,
+  FlagDefinitions,
+  FlagEvaluator,
+} from './types';
+
+/**
+ * Feature flags plugin for gradual rollouts and A/B tests.
+ * Users are bucketed by a deterministic hash of their id, or of an
+ * anonymous cookie, so they keep the same variant across requests.
+ * Exposes the flags as `context.flags`; use `Rules.flag()` to act on them.
+ */
+export class FeatureFlagsPlugin<T = any>
+  implements Plugin<T, FeatureFlagsContextExtension>
+{
+  declare readonly provides?: FeatureFlagsContextExtension;
+  name = 'feature-flags';
+  private options: Required<FeatureFlagsPluginOptions<T>>;
+  private definitions = new WeakMap<
+    MiddlewareContext<T>,
+    Promise<FlagDefinitions>
+  >();
+
+  constructor(options: FeatureFlagsPluginOptions<T>) {
+    this.options = {
+      userId: (user: any) => user?.id?.toString(),
+      cookie: 'flags_id',
+      cookieOptions: {},
+      header: 'x-feature-flags',
+      evaluateAll: false,
+      ...options,
+    };
+  }
+
+  /**
+   * Called before request processing begins.
+   * Creates the flag evaluator for the request, and drops any flags header
+   * sent by the client.
+   */
+  async beforeRequest(
+    context: PluginContext<T, FeatureFlagsContextExtension>,
+  ): Promise<void> {
+    if (this.options.header) {
+      context.requestHeaders.delete(this.options.header);
+    }
+    context.flags = this.createEvaluator(context);
+  }
+
+  /**
+   * Called after route matching.
+   * Evaluates every flag when `evaluateAll` is set.
+   */
+  async beforeRules(
+    context: PluginContext<T, FeatureFlagsContextExtension>,
+  ): Promise<void> {
+    if (!this.options.evaluateAll || !context.flags) return;
+
+    const definitions = await this.getDefinitions(context);
+    for (const name of Object.keys(definitions)) {
+      await context.flags.variant(name);
+    }
+  }
+
+  private createEvaluator(context: MiddlewareContext<T>): FlagEvaluator {
+    const variants = new Map<string, Promise<string>>();
+    const chosen: Record<string, string> = {};
+
+    const variant = (name: string) => {
+      let result = variants.get(name);
+      if (!result) {
+        result = this.evaluate(context, name).then((value) => {
+          chosen[name] = value;
+          this.expose(context, chosen);
+          return value;
+        });
+        variants.set(name, result);
+      }
+      return result;
+    };
+
+    return {
+      variant,
+      isEnabled: async (name) => (await variant(name)) !== 'off',
+    };
+  }
+
+  private async evaluate(
+    context: MiddlewareContext<T>,
+    name: string,
+  ): Promise<string> {
+    const definitions = await this.getDefinitions(context);
+    const definition = toDefinition(definitions[name]);
+    if (!definition || definition.enabled === false) return 'off';
+
+    const { rollout = 100, variants } = definition;
+    const weights = Object.entries(variants ?? {}).filter(
+      ([, weight]) => weight > 0,
+    );
+    if (rollout >= 100 && weights.length <= 1) {
+      return weights[0]?.[0] ?? 'on';
+    }
+    if (rollout <= 0) return 'off';
+
+    const id = await this.getBucketingId(context);
+    if (bucket(`${name}:${id}`) >= rollout) return 'off';
+    if (weights.length === 0) return 'on';
+
+    // A separate hash keeps variants stable when the rollout grows.
+    const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+    let point = (bucket(`${name}:variant:${id}`) / 100) * total;
+    for (const [variant, weight] of weights) {
+      point -= weight;
+      if (point < 0) return variant;
+    }
+    return weights[weights.length - 1]![0];
+  }
+
+  /**
+   * Definitions for the request, loaded once per request.
+   */
+  private getDefinitions(
+    context: MiddlewareContext<T>,
+  ): Promise<FlagDefinitions> {
+    const { flags } = this.options;
+    if (typeof flags !== 'function') return Promise.resolve(flags);
+
+    let definitions = this.definitions.get(context);
+    if (!definitions) {
+      definitions = Promise.resolve(flags(context));
+      this.definitions.set(context, definitions);
+    }
+    return definitions;
+  }
+
+  /**
+   * The user's id, or the anonymous id from the cookie, issuing a new
+   * cookie if there is none yet.
+   */
+  private async getBucketingId(context: MiddlewareContext<T>): Promise<string> {
+    const user = await context.load('user');
+    const userId = user ? this.options.userId(user) : null;
+    if (userId) return `user:${userId}`;
+
+    const { cookie } = this.options;
+    let anonymousId =
+      context.responseCookies.get(cookie)?.value ??
+      context.req.cookies.get(cookie)?.value;
+
+    if (!anonymousId) {
+      anonymousId = crypto.randomUUID();
+      context.responseCookies.set(cookie, anonymousId, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: context.req.nextUrl.protocol === 'https:',
+        maxAge: 60 * 60 * 24 * 365, // 1 year
+        ...this.options.cookieOptions,
+      });
+    }
+    return `anonymous:${anonymousId}`;
+  }
+
+  private expose(
+    context: MiddlewareContext<T>,
+    chosen: Record<string, string>,
+  ): void {
+    context.metadata.flags = { ...chosen };
+
+    const { header } = this.options;
+    if (header) {
+      context.requestHeaders.set(
+        header,
+        Object.entries(chosen)
+          .map(([name, value]) => `${name}=${value}`)
+          .join(','),
+      );
+    }
+  }
+}
+
+function toDefinition(
+  definition: FlagDefinition | boolean | undefined,
+): FlagDefinition | null {
+  if (definition === undefined) return null;
+  if (typeof definition === 'boolean') return { enabled: definition };
+  return definition;
+}
+
+/**
+ * Map a string to a stable point in [0, 100) with FNV-1a.
+ */
+function bucket(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return ((hash >>> 0) % 10000) / 100;
+}
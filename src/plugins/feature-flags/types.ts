@@ -0,0 +1,76 @@
+import { CookieOptions, MiddlewareContext } from '../../types/core';
+
+/**
+ * Definition of a feature flag
+ */
+export interface FlagDefinition {
+  /** Whether the flag can be on at all (defaults to true) */
+  enabled?: boolean;
+  /** Percentage of users who get the flag, from 0 to 100 (defaults to 100) */
+  rollout?: number;
+  /**
+   * Weighted variants for users in the rollout, e.g.
+   * `{ control: 50, treatment: 50 }`. Without variants, users in the
+   * rollout get `on`.
+   */
+  variants?: Record<string, number>;
+}
+
+/**
+ * Feature flags by name. `true` and `false` turn a flag on or off for
+ * everyone.
+ */
+export type FlagDefinitions = Record<string, FlagDefinition | boolean>;
+
+/**
+ * Where flag definitions come from: a static object, or a provider
+ * called at most once per request
+ */
+export type FlagSource<T = any> =
+  | FlagDefinitions
+  | ((
+      context: MiddlewareContext<T>,
+    ) => FlagDefinitions | Promise<FlagDefinitions>);
+
+/**
+ * Configuration options for the feature flags plugin
+ */
+export interface FeatureFlagsPluginOptions<T = any> {
+  /** Flag definitions */
+  flags: FlagSource<T>;
+  /**
+   * Stable id of the user, used for bucketing (defaults to `user.id`).
+   * Anonymous visitors are bucketed by a cookie instead.
+   */
+  userId?: (user: T) => string | null | undefined;
+  /** Cookie holding the anonymous bucketing id */
+  cookie?: string;
+  /** Attributes of the anonymous id cookie */
+  cookieOptions?: CookieOptions;
+  /**
+   * Request header listing the chosen variants for pages and route
+   * handlers, as `name=variant` pairs separated by commas
+   */
+  header?: string | false;
+  /** Evaluate every flag on each request, rather than only those used */
+  evaluateAll?: boolean;
+}
+
+/**
+ * Feature flag lookups for the current request.
+ * Results are memoized, so a flag has one variant per request.
+ */
+export interface FlagEvaluator {
+  /** The flag's variant: `on`, `off`, or one of its variant names */
+  variant(name: string): Promise<string>;
+  /** Whether the flag is on, in any variant */
+  isEnabled(name: string): Promise<boolean>;
+}
+
+/**
+ * Context fields added by the feature flags plugin
+ */
+export interface FeatureFlagsContextExtension {
+  /** Feature flags for this request */
+  flags: FlagEvaluator;
+}
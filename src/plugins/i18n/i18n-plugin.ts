@@ -0,0 +1,356 @@
+import { NextResponse } from 'next/server';
+import { Plugin, PluginContext, MiddlewareResult } from '../../types/core';
+import { matchPattern } from '../../utils/priority';
+import {
+  I18nContextExtension,
+  I18nPluginOptions,
+  RequiredI18nPluginOptions,
+  LocaleInfo,
+  I18nContext,
+  ParsedLocale,
+  AcceptLanguageEntry,
+} from './types';
+
+/**
+ * Internationalization plugin that detects the request locale and keeps
+ * URLs localized according to the configured strategy.
+ * Exposes the detected locale as `context.i18n` (and `context.metadata.i18n`).
+ */
+export class I18nPlugin<T = any> implements Plugin<T, I18nContextExtension> {
+  declare readonly provides?: I18nContextExtension;
+  name = 'i18n';
+  private options: RequiredI18nPluginOptions;
+
+  constructor(options: I18nPluginOptions = {}) {
+    const defaultLocale = options.defaultLocale ?? 'en';
+
+    this.options = {
+      enabled: true,
+      supportedLocales: [defaultLocale],
+      strategy: 'prefix',
+      localeDetection: true,
+      localeCookie: 'NEXT_LOCALE',
+      cookieDomain: undefined,
+      cookieMaxAge: 60 * 60 * 24 * 365, // 1 year
+      domains: [],
+      redirectStrategy: 'redirect',
+      ignorePaths: ['/api/*', '/_next/*', /\.[^/]+$/],
+      integration: 'custom',
+      onLocaleDetected: () => {},
+      fallbackLocale: defaultLocale,
+      localeFromPath: (path) => this.matchPathLocale(path),
+      pathRewriter: (path, locale) =>
+        path === '/' ? `/${locale}` : `/${locale}${path}`,
+      ...options,
+      defaultLocale,
+    };
+  }
+
+  /**
+   * Called before request processing begins.
+   * Detects the locale and redirects or rewrites unlocalized paths,
+   * except for ignored paths.
+   */
+  async beforeRequest(
+    context: PluginContext<T, I18nContextExtension>,
+  ): Promise<MiddlewareResult | void> {
+    if (!this.options.enabled) return;
+
+    const { req } = context;
+    const originalPath = context.path;
+    const hostname = this.getHostname(context);
+    const pathLocale = this.options.localeFromPath(originalPath);
+    const hostLocale = this.getHostLocale(hostname);
+
+    let locale: string;
+    let detectedFrom: LocaleInfo['detectedFrom'];
+
+    if (pathLocale && this.isSupported(pathLocale)) {
+      locale = this.normalizeLocale(pathLocale)!;
+      detectedFrom = 'path';
+    } else if (hostLocale) {
+      locale = hostLocale;
+      detectedFrom = 'domain';
+    } else {
+      const detected = this.options.localeDetection
+        ? this.detectPreferredLocale(context)
+        : null;
+      locale = detected?.locale ?? this.getDefaultLocale(hostname);
+      detectedFrom = detected?.detectedFrom ?? 'default';
+    }
+
+    const pathWithoutLocale =
+      detectedFrom === 'path'
+        ? this.stripLocale(originalPath, locale)
+        : originalPath;
+    const localizedPath = this.options.pathRewriter(pathWithoutLocale, locale);
+    const parsed = parseLocale(locale);
+
+    const localeInfo: LocaleInfo = {
+      locale,
+      detectedFrom,
+      originalPath,
+      localizedPath,
+      country: parsed.country,
+      region: parsed.region,
+    };
+
+    const i18n: I18nContext = {
+      locale,
+      defaultLocale: this.getDefaultLocale(hostname),
+      supportedLocales: this.options.supportedLocales,
+      localeInfo,
+      pathWithoutLocale,
+      isDefaultLocale: locale === this.getDefaultLocale(hostname),
+    };
+
+    context.i18n = i18n;
+    context.metadata.i18n = i18n;
+    this.options.onLocaleDetected(locale, detectedFrom);
+
+    if (detectedFrom === 'path' || this.isIgnored(originalPath)) return;
+
+    const url = new URL(req.url);
+
+    if (
+      this.options.strategy !== 'prefix' &&
+      !hostLocale &&
+      this.options.redirectStrategy === 'redirect'
+    ) {
+      const targetHost = this.getHostForLocale(locale, hostname);
+      if (targetHost && targetHost !== hostname) {
+        url.hostname = targetHost;
+        return NextResponse.redirect(url);
+      }
+    }
+
+    // Domain based strategies keep the locale out of the visible URL,
+    // so the localized path is only ever applied as an internal rewrite.
+    if (
+      this.options.strategy === 'prefix' &&
+      this.options.redirectStrategy === 'redirect'
+    ) {
+      url.pathname = localizedPath;
+      return NextResponse.redirect(url);
+    }
+
+    context.path = localizedPath;
+  }
+
+  /**
+   * Called after request processing completes.
+   * Persists the active locale in the locale cookie.
+   */
+  async afterRequest(
+    context: PluginContext<T, I18nContextExtension>,
+    result: MiddlewareResult,
+  ): Promise<void> {
+    const { localeCookie, cookieDomain, cookieMaxAge } = this.options;
+    const { i18n } = context;
+
+    if (!this.options.enabled || !localeCookie || !i18n) return;
+    if (this.isIgnored(i18n.localeInfo.originalPath)) return;
+    if (!(result instanceof NextResponse)) return;
+    if (context.req.cookies.get(localeCookie)?.value === i18n.locale) return;
+
+    result.cookies.set(localeCookie, i18n.locale, {
+      path: '/',
+      domain: cookieDomain,
+      maxAge: cookieMaxAge,
+      sameSite: 'lax',
+    });
+  }
+
+  /**
+   * Whether the path is left alone, such as API routes and static files
+   */
+  private isIgnored(path: string): boolean {
+    return this.options.ignorePaths.some((pattern) =>
+      typeof pattern === 'string'
+        ? matchPattern(path, pattern, !pattern.endsWith('/*')) !== null
+        : pattern.test(path),
+    );
+  }
+
+  /**
+   * Detect the preferred locale from the locale cookie or the
+   * Accept-Language header.
+   */
+  private detectPreferredLocale(
+    context: PluginContext<T, I18nContextExtension>,
+  ): Pick<LocaleInfo, 'locale' | 'detectedFrom'> | null {
+    const { req } = context;
+
+    if (this.options.localeCookie) {
+      const cookieLocale = this.normalizeLocale(
+        req.cookies.get(this.options.localeCookie)?.value,
+      );
+      if (cookieLocale) {
+        return { locale: cookieLocale, detectedFrom: 'cookie' };
+      }
+    }
+
+    const entries = parseAcceptLanguage(req.headers.get('accept-language'));
+    for (const entry of entries) {
+      const headerLocale = this.matchLocale(entry.parsed);
+      if (headerLocale) {
+        return { locale: headerLocale, detectedFrom: 'header' };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve the locale served by the request host for domain and
+   * subdomain strategies.
+   */
+  private getHostLocale(hostname: string): string | null {
+    if (this.options.strategy === 'domain') {
+      return this.findDomain(hostname)?.defaultLocale ?? null;
+    }
+    if (this.options.strategy === 'subdomain') {
+      return this.normalizeLocale(hostname.split('.')[0]);
+    }
+    return null;
+  }
+
+  /**
+   * Resolve the host that serves the given locale, used to redirect
+   * requests arriving on a host without a locale.
+   */
+  private getHostForLocale(locale: string, hostname: string): string | null {
+    if (this.options.strategy === 'domain') {
+      const domain =
+        this.options.domains.find((d) => d.defaultLocale === locale) ??
+        this.options.domains.find((d) => d.locales?.includes(locale));
+      return domain?.domain ?? null;
+    }
+    if (this.options.strategy === 'subdomain') {
+      const baseHost = this.options.cookieDomain?.replace(/^\./, '');
+      return `${locale}.${baseHost || hostname}`;
+    }
+    return null;
+  }
+
+  /**
+   * Default locale for the request, honouring domain configuration.
+   */
+  private getDefaultLocale(hostname: string): string {
+    if (this.options.strategy === 'domain') {
+      const domain = this.findDomain(hostname);
+      if (domain) return domain.defaultLocale;
+    }
+    return this.options.fallbackLocale || this.options.defaultLocale;
+  }
+
+  private findDomain(hostname: string) {
+    return this.options.domains.find((d) => d.domain === hostname);
+  }
+
+  private getHostname(context: PluginContext<T, I18nContextExtension>): string {
+    const host =
+      context.req.headers.get('host') || new URL(context.req.url).host;
+    return host.replace(/:\d+$/, '').toLowerCase();
+  }
+
+  /**
+   * Default `localeFromPath` implementation: reads the first path segment.
+   */
+  private matchPathLocale(path: string): string | null {
+    const segment = path.split('/')[1];
+    return this.normalizeLocale(segment);
+  }
+
+  private stripLocale(path: string, locale: string): string {
+    const segments = path.split('/');
+    if (segments[1]?.toLowerCase() === locale.toLowerCase()) {
+      segments.splice(1, 1);
+    }
+    return segments.join('/') || '/';
+  }
+
+  private isSupported(locale: string): boolean {
+    return this.normalizeLocale(locale) !== null;
+  }
+
+  /**
+   * Return the supported locale matching the given value exactly
+   * (case-insensitive), or null.
+   */
+  private normalizeLocale(locale: string | undefined | null): string | null {
+    if (!locale) return null;
+    const lower = locale.toLowerCase();
+    return (
+      this.options.supportedLocales.find((l) => l.toLowerCase() === lower) ??
+      null
+    );
+  }
+
+  /**
+   * Match a requested locale against the supported locales.
+   * Prefers an exact match, then the bare language, then any supported
+   * locale sharing the language.
+   */
+  private matchLocale(requested: ParsedLocale): string | null {
+    if (requested.full === '*') {
+      return null;
+    }
+
+    return (
+      this.normalizeLocale(requested.full) ??
+      this.normalizeLocale(requested.language) ??
+      this.options.supportedLocales.find(
+        (l) => parseLocale(l).language === requested.language,
+      ) ??
+      null
+    );
+  }
+}
+
+/**
+ * Split a locale string such as `en-US` or `es-419` into its components.
+ */
+function parseLocale(locale: string): ParsedLocale {
+  const [language = '', ...subtags] = locale.split(/[-_]/);
+  const parsed: ParsedLocale = {
+    language: language.toLowerCase(),
+    full: locale,
+  };
+
+  for (const subtag of subtags) {
+    if (/^[a-z]{2}$/i.test(subtag)) {
+      parsed.country = subtag.toUpperCase();
+    } else if (/^\d{3}$/.test(subtag)) {
+      parsed.region = subtag;
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse an Accept-Language header into entries ordered by quality.
+ * Entries with equal quality keep their header order.
+ */
+function parseAcceptLanguage(header: string | null): AcceptLanguageEntry[] {
+  if (!header) return [];
+
+  return header
+    .split(',')
+    .map((part) => {
+      const [locale = '', ...params] = part.trim().split(';');
+      const q = params
+        .map((param) => param.trim())
+        .find((param) => param.startsWith('q='));
+      const quality = q ? Number.parseFloat(q.slice(2)) : 1;
+
+      return {
+        locale: locale.trim(),
+        quality: Number.isNaN(quality) ? 0 : quality,
+        parsed: parseLocale(locale.trim()),
+      };
+    })
+    .filter((entry) => entry.locale && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+}
@@ -28,6 +28,13 @@ export interface I18nPluginOptions {
   }>;
   /** Strategy for redirecting to correct locale */
   redirectStrategy?: 'redirect' | 'rewrite';
+  /**
+   * Paths that are never redirected or rewritten, and get no locale
+   * cookie. Patterns ending in `/*` match the prefix; RegExps are tested
+   * against the path. Defaults to `/api/*`, `/_next/*` and paths with a
+   * file extension.
+   */
+  ignorePaths?: (string | RegExp)[];
   /** Integration with i18n libraries */
   integration?: 'next-intl' | 'next-i18next' | 'react-i18next' | 'custom';
   /** Callback when locale is detected */
@@ -58,6 +65,7 @@ export interface RequiredI18nPluginOptions {
     locales?: string[];
   }>;
   redirectStrategy: 'redirect' | 'rewrite';
+  ignorePaths: (string | RegExp)[];
   integration: 'next-intl' | 'next-i18next' | 'react-i18next' | 'custom';
   onLocaleDetected: (locale: string, detectionMethod: string) => void;
   fallbackLocale: string;
@@ -101,6 +109,14 @@ export interface I18nContext {
   isDefaultLocale: boolean;
 }
 
+/**
+ * Fields the i18n plugin adds to the middleware context
+ */
+export interface I18nContextExtension {
+  /** Current i18n state for the request */
+  i18n: I18nContext;
+}
+
 /**
  * Parsed locale information
  */
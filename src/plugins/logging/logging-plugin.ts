@@ -4,74 +4,92 @@ import {
   MiddlewareResult,
   MiddlewareRule,
 } from '../../types/core';
-import { LoggingPluginOptions } from './types';
+import { getRuleInfo } from '../../rules/rule-info';
+import { LogSinks } from './sinks';
+import { LogLevel, LogOutcome, LogRecord, LoggingPluginOptions } from './types';
+
+const levels: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+interface RequestLog {
+  requestId: string;
+  start: number;
+  sampled: boolean;
+  body?: string;
+  /** Route whose rules are counted, and the index of the current rule */
+  route: string | null;
+  ruleIndex: number;
+  ruleStart: number;
+  /** The rule that returned the response, if any */
+  answeredBy?: { ruleIndex: number; rule?: string };
+}
 
 /**
- * Logging plugin that provides comprehensive request and rule execution logging.
- * Tracks middleware execution flow with configurable log levels and detail.
+ * Logging plugin that writes structured records of each request and rule
+ * to a sink: pretty console lines, JSON lines, or a custom function.
+ * Records below `level` are dropped, and `sampleRate` keeps or drops all
+ * records of a request together; errors are always logged.
  */
 export class LoggingPlugin<T = any> implements Plugin<T> {
   name = 'logging';
   private options: Required<LoggingPluginOptions>;
+  private requests = new WeakMap<MiddlewareContext<T>, RequestLog>();
 
   constructor(options: LoggingPluginOptions = {}) {
+    const prefix = options.prefix ?? '[MIDDLEWARE]';
+
     this.options = {
       enabled: true,
       level: 'info',
-      prefix: '[MIDDLEWARE]',
+      prefix,
+      sink: LogSinks.pretty(prefix),
       includeHeaders: false,
+      redactHeaders: [
+        'authorization',
+        'cookie',
+        'proxy-authorization',
+        'x-api-key',
+      ],
       includeBody: false,
+      maxBodyLength: 1024,
+      sampleRate: 1,
+      requestIdHeader: 'x-request-id',
       ...options,
     };
   }
 
   /**
-   * Internal logging method that respects the configured log level
+   * Called before request processing begins.
+   * Starts the request's timer and decides whether it is sampled.
    */
-  private log(level: string, message: string, data?: any) {
+  async beforeRequest(context: MiddlewareContext<T>): Promise<void> {
     if (!this.options.enabled) return;
 
-    const logMessage = `${this.options.prefix} ${message}`;
-
-    switch (level) {
-      case 'debug':
-        console.debug(logMessage, data);
-        break;
-      case 'info':
-        console.info(logMessage, data);
-        break;
-      case 'warn':
-        console.warn(logMessage, data);
-        break;
-      case 'error':
-        console.error(logMessage, data);
-        break;
+    const log = this.getLog(context);
+    if (this.options.includeBody && hasBody(context.req.method)) {
+      log.body = await this.readBody(context);
     }
+    this.emit(log, this.createRecord(context, log, 'debug', 'request'));
   }
 
   /**
-   * Called before request processing begins
+   * Called before each rule execution
    */
-  async beforeRequest(context: MiddlewareContext<T>): Promise<void> {
-    this.log('info', `🔍 Processing path: ${context.path}`);
+  async beforeRule(context: MiddlewareContext<T>): Promise<void> {
+    if (!this.options.enabled) return;
 
-    if (this.options.includeHeaders) {
-      this.log(
-        'debug',
-        'Headers:',
-        Object.fromEntries(context.req.headers.entries()),
-      );
+    const log = this.getLog(context);
+    if (context.route !== log.route) {
+      log.route = context.route;
+      log.ruleIndex = 0;
+    } else {
+      log.ruleIndex++;
     }
-  }
-
-  /**
-   * Called before each rule execution
-   */
-  async beforeRule(
-    context: MiddlewareContext<T>,
-    rule: MiddlewareRule<T>,
-  ): Promise<void> {
-    this.log('debug', `🔗 Executing rule for ${context.path}`);
+    log.ruleStart = performance.now();
   }
 
   /**
@@ -82,32 +100,170 @@ export class LoggingPlugin<T = any> implements Plugin<T> {
     rule: MiddlewareRule<T>,
     result: MiddlewareResult,
   ): Promise<void> {
+    if (!this.options.enabled) return;
+
+    const log = this.getLog(context);
+    const ruleName = getRuleInfo(rule)?.name || rule.name || undefined;
     if (result) {
-      const isRedirect = result.headers.get('location');
-      if (isRedirect) {
-        this.log('info', `🔄 Rule redirecting to: ${isRedirect}`);
-      } else {
-        this.log('info', `🛑 Rule returned response`);
-      }
+      log.answeredBy = { ruleIndex: log.ruleIndex, rule: ruleName };
     }
+
+    this.emit(log, {
+      ...this.createRecord(context, log, 'debug', 'rule'),
+      ruleIndex: log.ruleIndex,
+      rule: ruleName,
+      ...(result ? describeResult(result) : { outcome: 'pass' }),
+      durationMs: elapsed(log.ruleStart),
+    });
   }
 
   /**
-   * Called after request processing completes
+   * Called after request processing completes.
+   * Logs the outcome at `info`, or `warn` and `error` for 4xx and 5xx
+   * responses.
    */
   async afterRequest(
     context: MiddlewareContext<T>,
     result: MiddlewareResult,
   ): Promise<void> {
-    if (!result?.headers.get('location')) {
-      this.log('info', `✨ Request completed for ${context.path}`);
-    }
+    if (!this.options.enabled) return;
+
+    const log = this.getLog(context);
+    const status = result?.status ?? 200;
+    const level = status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info';
+
+    this.emit(log, {
+      ...this.createRecord(context, log, level, 'response'),
+      ...log.answeredBy,
+      ...(result ? describeResult(result) : { outcome: 'next', status }),
+      durationMs: elapsed(log.start),
+      ...this.describeRequest(context, log),
+    });
   }
 
   /**
    * Called when an error occurs during processing
    */
   async onError(context: MiddlewareContext<T>, error: Error): Promise<void> {
-    this.log('error', `🚨 Error processing ${context.path}:`, error.message);
+    if (!this.options.enabled) return;
+
+    const log = this.getLog(context);
+    this.emit(log, {
+      ...this.createRecord(context, log, 'error', 'error'),
+      outcome: 'error',
+      durationMs: elapsed(log.start),
+      error: { name: error.name, message: error.message, stack: error.stack },
+      ...this.describeRequest(context, log),
+    });
   }
+
+  /**
+   * State of the request, created on first use so errors thrown before
+   * `beforeRequest` are still logged.
+   */
+  private getLog(context: MiddlewareContext<T>): RequestLog {
+    let log = this.requests.get(context);
+    if (!log) {
+      const { requestIdHeader, sampleRate } = this.options;
+      log = {
+        requestId:
+          context.metadata.requestId ??
+          context.req.headers.get(requestIdHeader) ??
+          crypto.randomUUID(),
+        start: performance.now(),
+        sampled: Math.random() < sampleRate,
+        route: null,
+        ruleIndex: -1,
+        ruleStart: 0,
+      };
+      this.requests.set(context, log);
+    }
+    return log;
+  }
+
+  private createRecord(
+    context: MiddlewareContext<T>,
+    log: RequestLog,
+    level: LogLevel,
+    event: LogRecord['event'],
+  ): LogRecord {
+    return {
+      timestamp: new Date().toISOString(),
+      level,
+      event,
+      requestId: log.requestId,
+      method: context.req.method,
+      path: context.path,
+      route: context.route,
+    };
+  }
+
+  /**
+   * Headers and body for the record, when enabled
+   */
+  private describeRequest(
+    context: MiddlewareContext<T>,
+    log: RequestLog,
+  ): Pick<LogRecord, 'headers' | 'body'> {
+    const details: Pick<LogRecord, 'headers' | 'body'> = {};
+    if (this.options.includeHeaders) {
+      const redacted = this.options.redactHeaders.map((name) =>
+        name.toLowerCase(),
+      );
+      details.headers = {};
+      context.req.headers.forEach((value, name) => {
+        details.headers![name] = redacted.includes(name) ? '[REDACTED]' : value;
+      });
+    }
+    if (log.body !== undefined) {
+      details.body = log.body;
+    }
+    return details;
+  }
+
+  private async readBody(
+    context: MiddlewareContext<T>,
+  ): Promise<string | undefined> {
+    try {
+      const body = await context.req.clone().text();
+      return body.length > this.options.maxBodyLength
+        ? `${body.slice(0, this.options.maxBodyLength)}...`
+        : body;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private emit(log: RequestLog, record: LogRecord): void {
+    if (levels[record.level] < levels[this.options.level]) return;
+    if (!log.sampled && record.level !== 'error') return;
+
+    this.options.sink(record);
+  }
+}
+
+function describeResult(
+  result: NonNullable<MiddlewareResult>,
+): Pick<LogRecord, 'outcome' | 'status' | 'location'> {
+  const location = result.headers.get('location');
+  const rewrite = result.headers.get('x-middleware-rewrite');
+  let outcome: LogOutcome = 'response';
+  if (location) outcome = 'redirect';
+  else if (rewrite) outcome = 'rewrite';
+  else if (result.headers.has('x-middleware-next')) outcome = 'next';
+
+  const target = location ?? rewrite;
+  return {
+    outcome,
+    status: result.status,
+    ...(target ? { location: target } : {}),
+  };
+}
+
+function hasBody(method: string): boolean {
+  return !['GET', 'HEAD'].includes(method.toUpperCase());
+}
+
+function elapsed(start: number): number {
+  return Math.round((performance.now() - start) * 100) / 100;
 }
@@ -0,0 +1,58 @@
+import { LogRecord, LogSink } from './types';
+
+/**
+ * Built-in sinks for the logging plugin.
+ */
+export const LogSinks = {
+  /**
+   * Human-readable lines on the console, using the console method of the
+   * record's level. Headers, body and error follow as a separate object.
+   */
+  pretty:
+    (prefix = '[MIDDLEWARE]'): LogSink =>
+    (record) => {
+      const { headers, body, error } = record;
+      const details = { headers, body, error };
+      const hasDetails = Object.values(details).some(
+        (value) => value !== undefined,
+      );
+
+      const line = formatPretty(prefix, record);
+      if (hasDetails) {
+        console[record.level](line, details);
+      } else {
+        console[record.level](line);
+      }
+    },
+
+  /**
+   * One JSON object per line, for log pipelines. Writes to `console.log`
+   * unless a writer is given.
+   */
+  json:
+    (write: (line: string) => void = (line) => console.log(line)): LogSink =>
+    (record) =>
+      write(JSON.stringify(record)),
+};
+
+function formatPretty(prefix: string, record: LogRecord): string {
+  const parts = [
+    prefix,
+    record.level.toUpperCase(),
+    record.method,
+    record.path,
+    record.event,
+  ];
+  if (record.outcome) parts.push(record.outcome);
+  if (record.status !== undefined) parts.push(String(record.status));
+  if (record.location) parts.push(`-> ${record.location}`);
+  if (record.route !== null) parts.push(`route=${record.route}`);
+  if (record.ruleIndex !== undefined) {
+    parts.push(
+      `rule=${record.ruleIndex}${record.rule ? `:${record.rule}` : ''}`,
+    );
+  }
+  if (record.durationMs !== undefined) parts.push(`${record.durationMs}ms`);
+  parts.push(`id=${record.requestId}`);
+  return parts.join(' ');
+}
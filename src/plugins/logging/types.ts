@@ -1,15 +1,86 @@
+/**
+ * Severity of a log record, from least to most severe
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * How a request or rule ended:
+ * - `pass`: the rule returned nothing and the next one runs
+ * - `next`: the request continues to the page
+ * - `rewrite`, `redirect`: the request was rewritten or redirected
+ * - `response`: the middleware answered the request itself
+ * - `error`: processing threw
+ */
+export type LogOutcome =
+  | 'pass'
+  | 'next'
+  | 'rewrite'
+  | 'redirect'
+  | 'response'
+  | 'error';
+
+/**
+ * A structured log record
+ */
+export interface LogRecord {
+  /** ISO 8601 time the record was created */
+  timestamp: string;
+  level: LogLevel;
+  /**
+   * `request` when processing starts and `rule` after each rule (both at
+   * `debug`), then `response` when it ends, or `error`
+   */
+  event: 'request' | 'rule' | 'response' | 'error';
+  /** Correlates the records of a request */
+  requestId: string;
+  method: string;
+  path: string;
+  /** Pattern of the matched route, or null if none matched */
+  route: string | null;
+  /** Position of the rule within its route; for `response`, of the rule that answered */
+  ruleIndex?: number;
+  /** Name of the rule, if known */
+  rule?: string;
+  outcome?: LogOutcome;
+  status?: number;
+  /** Redirect or rewrite target */
+  location?: string;
+  /** Milliseconds the request took, or for `rule` records, the rule */
+  durationMs?: number;
+  /** Request headers, with redacted values replaced */
+  headers?: Record<string, string>;
+  /** Request body, truncated to `maxBodyLength` */
+  body?: string;
+  error?: { name: string; message: string; stack?: string };
+}
+
+/**
+ * Receives the log records that pass the level and sampling filters
+ */
+export type LogSink = (record: LogRecord) => void;
+
 /**
  * Configuration options for the logging plugin
  */
 export interface LoggingPluginOptions {
   /** Whether logging is enabled */
   enabled?: boolean;
-  /** Log level threshold */
-  level?: 'debug' | 'info' | 'warn' | 'error';
-  /** Prefix for log messages */
+  /** Minimum level of the records to log (default 'info') */
+  level?: LogLevel;
+  /** Prefix for messages of the default pretty sink */
   prefix?: string;
-  /** Whether to include request headers in logs */
+  /** Where records go: `LogSinks.pretty()` (default), `LogSinks.json()` or a custom function */
+  sink?: LogSink;
+  /** Whether to include request headers in the `response` and `error` records */
   includeHeaders?: boolean;
-  /** Whether to include request body in logs */
+  /** Headers whose values are replaced by `[REDACTED]` (case-insensitive) */
+  redactHeaders?: string[];
+  /** Whether to include the request body in the `response` and `error` records */
   includeBody?: boolean;
+  /** Longest body logged, in characters (default 1024) */
+  maxBodyLength?: number;
+  /** Fraction of requests to log, from 0 to 1 (default 1). Errors are always logged. */
+  sampleRate?: number;
+  /** Header read for the request id; one is generated if missing (default 'x-request-id') */
+  requestIdHeader?: string;
 }
@@ -0,0 +1,77 @@
+import { Plugin, PluginContext } from '../../types/core';
+import { RequestIdContextExtension, RequestIdPluginOptions } from './types';
+
+const safeId = /^[\w.:+/=-]{1,128}$/;
+const traceparentPattern =
+  /^([\da-f]{2})-([\da-f]{32})-([\da-f]{16})-[\da-f]{2}$/;
+
+/**
+ * Request ID plugin that gives every request an id for correlating logs.
+ * The id comes from the incoming `x-request-id` header or the trace id of
+ * a W3C `traceparent` header, and is generated otherwise.
+ * Exposes it as `context.requestId` (and `context.metadata.requestId`,
+ * which `LoggingPlugin` reads), forwards it to pages and route handlers
+ * as a request header, and echoes it on the response.
+ */
+export class RequestIdPlugin<T = any>
+  implements Plugin<T, RequestIdContextExtension>
+{
+  declare readonly provides?: RequestIdContextExtension;
+  name = 'request-id';
+  private options: Required<RequestIdPluginOptions>;
+
+  constructor(options: RequestIdPluginOptions = {}) {
+    this.options = {
+      enabled: true,
+      header: 'x-request-id',
+      traceparent: true,
+      trustIncoming: true,
+      generate: () => crypto.randomUUID(),
+      echo: true,
+      ...options,
+    };
+  }
+
+  /**
+   * Called before request processing begins.
+   * Assigns the id before other plugins, such as logging, read it.
+   */
+  async beforeRequest(
+    context: PluginContext<T, RequestIdContextExtension>,
+  ): Promise<void> {
+    if (!this.options.enabled) return;
+
+    const { header } = this.options;
+    const traceId = this.options.traceparent
+      ? parseTraceId(context.req.headers.get('traceparent'))
+      : null;
+    const incoming = this.options.trustIncoming
+      ? (context.req.headers.get(header) ?? traceId)
+      : null;
+    const requestId =
+      incoming && safeId.test(incoming) ? incoming : this.options.generate();
+
+    context.requestId = requestId;
+    context.traceId = traceId;
+    context.metadata.requestId = requestId;
+    context.requestHeaders.set(header, requestId);
+    if (this.options.echo) {
+      context.responseHeaders.set(header, requestId);
+    }
+  }
+}
+
+/**
+ * Trace id of a W3C `traceparent` header, or null if it is missing or
+ * invalid.
+ */
+function parseTraceId(traceparent: string | null): string | null {
+  const match = traceparent?.trim().toLowerCase().match(traceparentPattern);
+  if (!match) return null;
+
+  const [, version, traceId, parentId] = match;
+  if (version === 'ff' || /^0+$/.test(traceId!) || /^0+$/.test(parentId!)) {
+    return null;
+  }
+  return traceId!;
+}
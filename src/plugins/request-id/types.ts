@@ -0,0 +1,34 @@
+/**
+ * Configuration options for the request ID plugin
+ */
+export interface RequestIdPluginOptions {
+  /** Whether request ids are assigned */
+  enabled?: boolean;
+  /** Header the id is read from, forwarded in and echoed on (default 'x-request-id') */
+  header?: string;
+  /**
+   * Whether to use the trace id of an incoming W3C `traceparent` header
+   * when the request has no id header (default true)
+   */
+  traceparent?: boolean;
+  /**
+   * Whether to accept ids sent by the client (default true).
+   * Ids that are too long or contain unexpected characters are always
+   * replaced.
+   */
+  trustIncoming?: boolean;
+  /** Creates ids for requests without one (default `crypto.randomUUID()`) */
+  generate?: () => string;
+  /** Whether to add the id header to the response (default true) */
+  echo?: boolean;
+}
+
+/**
+ * Context fields added by the request ID plugin
+ */
+export interface RequestIdContextExtension {
+  /** Id correlating every log line of this request */
+  requestId: string;
+  /** Trace id of the incoming `traceparent` header, or null */
+  traceId: string | null;
+}
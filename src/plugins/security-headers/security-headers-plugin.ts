@@ -0,0 +1,175 @@
+import { Plugin, PluginContext, MiddlewareResult } from '../../types/core';
+import { base64UrlEncode } from '../../auth/encoding';
+import { forwardRequestHeaders } from '../../utils/request-headers';
+import {
+  ContentSecurityPolicyOptions,
+  CspDirectives,
+  HstsOptions,
+  SecurityHeadersContextExtension,
+  SecurityHeadersPluginOptions,
+} from './types';
+
+/**
+ * Default policy, following the Next.js nonce guide.
+ */
+const defaultDirectives: CspDirectives = {
+  'default-src': ["'self'"],
+  'script-src': [
+    "'self'",
+    "'strict-dynamic'",
+    // React needs eval for better stack traces in development
+    ...(process.env.NODE_ENV === 'development' ? ["'unsafe-eval'"] : []),
+  ],
+  'style-src': ["'self'"],
+  'img-src': ["'self'", 'blob:', 'data:'],
+  'font-src': ["'self'"],
+  'object-src': ["'none'"],
+  'base-uri': ["'self'"],
+  'form-action': ["'self'"],
+  'frame-ancestors': ["'none'"],
+  'upgrade-insecure-requests': true,
+};
+
+/**
+ * Security headers plugin that adds HSTS, framing, referrer, permissions
+ * and content-type headers to every response, along with a
+ * Content-Security-Policy using a fresh nonce for each request.
+ * Exposes the nonce as `context.cspNonce` (and `context.metadata.cspNonce`).
+ * Routes can adjust directives with `metadata.csp`, or drop the policy
+ * with `metadata.csp = false`.
+ */
+export class SecurityHeadersPlugin<T = any>
+  implements Plugin<T, SecurityHeadersContextExtension>
+{
+  declare readonly provides?: SecurityHeadersContextExtension;
+  name = 'security-headers';
+  private options: Required<SecurityHeadersPluginOptions>;
+
+  constructor(options: SecurityHeadersPluginOptions = {}) {
+    this.options = {
+      enabled: true,
+      contentSecurityPolicy: {},
+      hsts: {},
+      frameOptions: 'DENY',
+      referrerPolicy: 'strict-origin-when-cross-origin',
+      permissionsPolicy: { camera: [], microphone: [], geolocation: [] },
+      noSniff: true,
+      nonceHeader: 'x-nonce',
+      ...options,
+    };
+  }
+
+  /**
+   * Called before request processing begins.
+   * Generates the nonce so rules and other plugins can use it.
+   */
+  async beforeRequest(
+    context: PluginContext<T, SecurityHeadersContextExtension>,
+  ): Promise<void> {
+    if (!this.options.enabled) return;
+
+    const nonce = base64UrlEncode(crypto.getRandomValues(new Uint8Array(16)));
+    context.cspNonce = nonce;
+    context.metadata.cspNonce = nonce;
+  }
+
+  /**
+   * Called after request processing completes.
+   * Adds the security headers and forwards the nonce to the page.
+   */
+  async afterRequest(
+    context: PluginContext<T, SecurityHeadersContextExtension>,
+    result: MiddlewareResult,
+  ): Promise<void> {
+    if (!this.options.enabled || !result) return;
+
+    const { headers } = result;
+    const { hsts, frameOptions, referrerPolicy, permissionsPolicy } =
+      this.options;
+
+    if (hsts) {
+      headers.set('Strict-Transport-Security', formatHsts(hsts));
+    }
+    if (frameOptions) {
+      headers.set('X-Frame-Options', frameOptions);
+    }
+    if (referrerPolicy) {
+      headers.set('Referrer-Policy', referrerPolicy);
+    }
+    if (permissionsPolicy) {
+      headers.set(
+        'Permissions-Policy',
+        formatPermissionsPolicy(permissionsPolicy),
+      );
+    }
+    if (this.options.noSniff) {
+      headers.set('X-Content-Type-Options', 'nosniff');
+    }
+
+    const csp = this.options.contentSecurityPolicy;
+    const override: CspDirectives | false | undefined = context.metadata.csp;
+    if (!csp || override === false || !context.cspNonce) return;
+
+    const policy = formatPolicy(
+      { ...(csp.directives ?? defaultDirectives), ...override },
+      csp,
+      context.cspNonce,
+    );
+    const header = csp.reportOnly
+      ? 'Content-Security-Policy-Report-Only'
+      : 'Content-Security-Policy';
+    headers.set(header, policy);
+
+    const requestHeaders = new Headers(context.req.headers);
+    requestHeaders.set(header, policy);
+    if (this.options.nonceHeader) {
+      requestHeaders.set(this.options.nonceHeader, context.cspNonce);
+    }
+    forwardRequestHeaders(result, context.req, requestHeaders);
+  }
+}
+
+function formatPolicy(
+  directives: CspDirectives,
+  options: ContentSecurityPolicyOptions,
+  nonce: string,
+): string {
+  const nonceDirectives = options.nonceDirectives ?? [
+    'script-src',
+    'style-src',
+  ];
+
+  return Object.entries(directives)
+    .flatMap(([name, value]) => {
+      if (value === false) return [];
+      if (value === true) return [name];
+
+      const sources = nonceDirectives.includes(name)
+        ? [...value, `'nonce-${nonce}'`]
+        : value;
+      return [[name, ...sources].join(' ')];
+    })
+    .join('; ');
+}
+
+function formatHsts(options: HstsOptions): string {
+  const { maxAge = 63072000, includeSubDomains = true, preload } = options;
+  return [
+    `max-age=${maxAge}`,
+    ...(includeSubDomains ? ['includeSubDomains'] : []),
+    ...(preload ? ['preload'] : []),
+  ].join('; ');
+}
+
+function formatPermissionsPolicy(policy: Record<string, string[]>): string {
+  return Object.entries(policy)
+    .map(([feature, allowList]) => {
+      if (allowList.includes('*')) return `${feature}=*`;
+
+      const origins = allowList.map((origin) =>
+        origin === 'self' || origin === 'src' ? origin : `"${origin}"`,
+      );
+      return `${feature}=(${origins.join(' ')})`;
+    })
+    .join(', ');
+}
@@ -0,0 +1,68 @@
+/**
+ * Content-Security-Policy directives, keyed by directive name.
+ * Valueless directives such as `upgrade-insecure-requests` take `true`;
+ * `false` removes a directive.
+ */
+export type CspDirectives = Record<string, string[] | boolean>;
+
+/**
+ * Content-Security-Policy settings
+ */
+export interface ContentSecurityPolicyOptions {
+  /** Policy directives (replaces the default policy) */
+  directives?: CspDirectives;
+  /** Directives that receive the request nonce */
+  nonceDirectives?: string[];
+  /** Send `Content-Security-Policy-Report-Only` instead of enforcing */
+  reportOnly?: boolean;
+}
+
+/**
+ * Strict-Transport-Security settings
+ */
+export interface HstsOptions {
+  /** How long browsers should only use HTTPS, in seconds */
+  maxAge?: number;
+  /** Whether the policy applies to subdomains */
+  includeSubDomains?: boolean;
+  /** Whether to opt in to browser preload lists */
+  preload?: boolean;
+}
+
+/**
+ * Configuration options for the security headers plugin.
+ * Set any header option to `false` to leave that header out.
+ */
+export interface SecurityHeadersPluginOptions {
+  /** Whether security headers are enabled */
+  enabled?: boolean;
+  /** Content-Security-Policy with a per-request nonce */
+  contentSecurityPolicy?: ContentSecurityPolicyOptions | false;
+  /** Strict-Transport-Security */
+  hsts?: HstsOptions | false;
+  /** X-Frame-Options */
+  frameOptions?: 'DENY' | 'SAMEORIGIN' | false;
+  /** Referrer-Policy */
+  referrerPolicy?: string | false;
+  /**
+   * Permissions-Policy, as allow-lists per feature.
+   * An empty list disables the feature.
+   */
+  permissionsPolicy?: Record<string, string[]> | false;
+  /** Whether to send `X-Content-Type-Options: nosniff` */
+  noSniff?: boolean;
+  /**
+   * Request header exposing the nonce to server components.
+   * The policy itself is forwarded as the `Content-Security-Policy`
+   * request header, which Next.js reads to add the nonce to its scripts.
+   */
+  nonceHeader?: string | false;
+}
+
+/**
+ * Context fields added by the security headers plugin
+ */
+export interface SecurityHeadersContextExtension {
+  /** Nonce for inline scripts and styles in this request */
+  cspNonce: string;
+}
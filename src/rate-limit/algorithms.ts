@@ -0,0 +1,168 @@
+import {
+  RateLimitAlgorithm,
+  RateLimitResult,
+  RateLimitState,
+  RateLimitUpdate,
+} from './types';
+
+/**
+ * Limit settings passed to an algorithm
+ */
+export interface RateLimitPolicy {
+  requests: number;
+  window: number;
+}
+
+/**
+ * Result of counting one request: the updated state to store, how long to
+ * keep it, and the outcome reported to the client.
+ */
+export interface RateLimitStep extends RateLimitUpdate {
+  result: RateLimitResult;
+}
+
+/**
+ * Count one request against the stored state.
+ */
+export type RateLimitCounter = (
+  state: RateLimitState | null | undefined,
+  policy: RateLimitPolicy,
+  now: number,
+) => RateLimitStep;
+
+/**
+ * Fixed window: the count resets at the start of every window.
+ */
+export const fixedWindow: RateLimitCounter = (state, policy, now) => {
+  const { requests, window } = policy;
+  const start = Math.floor(now / window) * window;
+  const count = state?.start === start ? state.count! : 0;
+  const reset = start + window;
+
+  if (count >= requests) {
+    return {
+      state: { start, count },
+      ttl: reset - now,
+      result: limited(requests, reset, reset - now),
+    };
+  }
+
+  return {
+    state: { start, count: count + 1 },
+    ttl: reset - now,
+    result: {
+      limited: false,
+      limit: requests,
+      remaining: requests - count - 1,
+      reset,
+    },
+  };
+};
+
+/**
+ * Sliding window: the previous window's count is weighted by how much of
+ * it still overlaps the sliding window.
+ */
+export const slidingWindow: RateLimitCounter = (state, policy, now) => {
+  const { requests, window } = policy;
+  const start = Math.floor(now / window) * window;
+
+  let count = 0;
+  let previous = 0;
+  if (state?.start === start) {
+    count = state.count!;
+    previous = state.previous!;
+  } else if (state?.start === start - window) {
+    previous = state.count!;
+  }
+
+  const weight = 1 - (now - start) / window;
+  const estimate = previous * weight + count;
+  const reset = start + window;
+
+  if (estimate + 1 > requests) {
+    // Wait until enough of the previous window has slid out, or for the
+    // next window if the current one alone is over the limit.
+    const wait =
+      count + 1 > requests || previous === 0
+        ? reset - now
+        : start + window * (1 - (requests - 1 - count) / previous) - now;
+
+    return {
+      state: { start, count, previous },
+      ttl: reset - now + window,
+      result: limited(requests, reset, wait),
+    };
+  }
+
+  return {
+    state: { start, count: count + 1, previous },
+    ttl: reset - now + window,
+    result: {
+      limited: false,
+      limit: requests,
+      remaining: Math.max(0, Math.floor(requests - estimate - 1)),
+      reset,
+    },
+  };
+};
+
+/**
+ * Token bucket: holds up to `requests` tokens and refills them evenly over
+ * the window. Each request takes one token.
+ */
+export const tokenBucket: RateLimitCounter = (state, policy, now) => {
+  const { requests, window } = policy;
+  const rate = requests / window;
+  const elapsed = state ? Math.max(0, now - state.updated!) : 0;
+  const tokens = state
+    ? Math.min(requests, state.tokens! + elapsed * rate)
+    : requests;
+
+  if (tokens < 1) {
+    return {
+      state: { tokens, updated: now },
+      ttl: window,
+      result: limited(
+        requests,
+        now + (requests - tokens) / rate,
+        (1 - tokens) / rate,
+      ),
+    };
+  }
+
+  const remaining = tokens - 1;
+  return {
+    state: { tokens: remaining, updated: now },
+    ttl: window,
+    result: {
+      limited: false,
+      limit: requests,
+      remaining: Math.floor(remaining),
+      reset: now + Math.ceil((requests - remaining) / rate),
+    },
+  };
+};
+
+/**
+ * Counters for each supported algorithm.
+ */
+export const algorithms: Record<RateLimitAlgorithm, RateLimitCounter> = {
+  'fixed-window': fixedWindow,
+  'sliding-window': slidingWindow,
+  'token-bucket': tokenBucket,
+};
+
+function limited(
+  requests: number,
+  reset: number,
+  wait: number,
+): RateLimitResult {
+  return {
+    limited: true,
+    limit: requests,
+    remaining: 0,
+    reset,
+    retryAfter: Math.max(1, Math.ceil(wait / 1000)),
+  };
+}
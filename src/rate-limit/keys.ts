@@ -0,0 +1,65 @@
+import { MiddlewareContext } from '../types/core';
+import { RateLimitKeyFn } from './types';
+
+/**
+ * Built-in key functions for rate limiting.
+ */
+export const RateLimitKeys = {
+  /**
+   * Count requests per client IP, read from `x-forwarded-for` (first
+   * entry) or `x-real-ip`.
+   */
+  ip: (): RateLimitKeyFn => (context) => `ip:${getClientIp(context)}`,
+
+  /**
+   * Count requests per user. Loads the user if needed; anonymous requests
+   * fall back to the `anonymous` key function, or are not limited.
+   */
+  user:
+    <T = any>(
+      select: (user: T) => string | number | null | undefined = (user: any) =>
+        user?.id,
+      anonymous?: RateLimitKeyFn<T>,
+    ): RateLimitKeyFn<T> =>
+    async (context) => {
+      const user = await context.load('user');
+      const id = user ? select(user) : null;
+      if (id !== null && id !== undefined) {
+        return `user:${id}`;
+      }
+      return anonymous ? anonymous(context) : null;
+    },
+
+  /**
+   * Count requests per API key read from a request header. Requests without
+   * the header fall back to the `missing` key function, or are not limited.
+   */
+  apiKey:
+    (header = 'x-api-key', missing?: RateLimitKeyFn): RateLimitKeyFn =>
+    (context) => {
+      const key = context.req.headers.get(header);
+      if (key) return `key:${key}`;
+      return missing ? missing(context) : null;
+    },
+
+  /**
+   * Count requests per path, combined with another key function so each
+   * client gets a separate quota for every path matched by the route.
+   */
+  route:
+    <T = any>(key: RateLimitKeyFn<T> = RateLimitKeys.ip()): RateLimitKeyFn<T> =>
+    async (context) => {
+      const base = await key(context);
+      return base === null ? null : `${context.path}:${base}`;
+    },
+};
+
+/**
+ * Read the client IP from proxy headers.
+ */
+export function getClientIp(context: MiddlewareContext): string {
+  const forwarded = context.req.headers.get('x-forwarded-for');
+  const ip =
+    forwarded?.split(',')[0]?.trim() || context.req.headers.get('x-real-ip');
+  return ip || 'unknown';
+}
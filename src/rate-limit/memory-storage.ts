@@ -0,0 +1,83 @@
+import {
+  MemoryRateLimitStorageOptions,
+  RateLimitState,
+  RateLimitStorage,
+  RateLimitUpdate,
+} from './types';
+
+/**
+ * In-memory rate limit storage.
+ * Tracks at most `maxKeys` keys and evicts the least recently used key
+ * when full, so memory stays bounded however many clients are seen.
+ * Counters are local to the process; use a shared storage to limit across
+ * instances.
+ */
+export class MemoryRateLimitStorage implements RateLimitStorage {
+  private entries = new Map<
+    string,
+    { state: RateLimitState; expires: number }
+  >();
+  private maxKeys: number;
+
+  constructor(options: MemoryRateLimitStorageOptions = {}) {
+    this.maxKeys = options.maxKeys ?? 10000;
+  }
+
+  /**
+   * Retrieve the state for a key, marking it as recently used
+   */
+  get(key: string): RateLimitState | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    this.entries.delete(key);
+    if (entry.expires <= Date.now()) {
+      return null;
+    }
+    this.entries.set(key, entry);
+    return entry.state;
+  }
+
+  /**
+   * Store the state for a key, evicting the least recently used key if
+   * the storage is full
+   */
+  set(key: string, state: RateLimitState, ttl: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { state, expires: Date.now() + ttl });
+
+    if (this.entries.size > this.maxKeys) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+  }
+
+  /**
+   * Replace the state for a key with the result of `apply`. Atomic, as
+   * nothing else runs between the read and the write.
+   */
+  update<U extends RateLimitUpdate>(
+    key: string,
+    apply: (state: RateLimitState | null) => U,
+  ): U {
+    const update = apply(this.get(key));
+    this.set(key, update.state, update.ttl);
+    return update;
+  }
+
+  /**
+   * Delete the state for a key
+   */
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /**
+   * Number of tracked keys
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,109 @@
+import { MiddlewareContext, MiddlewareResult } from '../types/core';
+import { Responses } from '../responses/response-helpers';
+import { algorithms, RateLimitCounter } from './algorithms';
+import { RateLimitKeys } from './keys';
+import { MemoryRateLimitStorage } from './memory-storage';
+import { RateLimitOptions, RateLimitResult, RateLimitStorage } from './types';
+
+/**
+ * Counts requests per key and decides whether they exceed the limit.
+ * Used by `Rules.rateLimit`, or directly from custom rules.
+ */
+export class RateLimiter<T = any> {
+  private options: Required<
+    Omit<RateLimitOptions<T>, 'onLimitExceeded' | 'response'>
+  > &
+    Pick<RateLimitOptions<T>, 'onLimitExceeded' | 'response'>;
+  private storage: RateLimitStorage;
+  private counter: RateLimitCounter;
+
+  constructor(options: RateLimitOptions<T>) {
+    if (options.requests <= 0 || options.window <= 0) {
+      throw new Error('Rate limit requests and window must be positive');
+    }
+    if (options.storage && options.prefix === undefined) {
+      throw new Error('Rate limit storage needs an explicit prefix');
+    }
+
+    this.options = {
+      algorithm: 'sliding-window',
+      storage: new MemoryRateLimitStorage(),
+      key: RateLimitKeys.ip(),
+      // The default storage belongs to this limiter alone.
+      prefix: 'ratelimit',
+      headers: true,
+      dryRun: false,
+      ...options,
+    };
+    this.storage = this.options.storage;
+    this.counter = algorithms[this.options.algorithm];
+  }
+
+  /**
+   * Count the request and return the outcome, or null if the key function
+   * skipped the request.
+   */
+  async check(context: MiddlewareContext<T>): Promise<RateLimitResult | null> {
+    const key = await this.options.key(context);
+    if (key === null) return null;
+
+    const storageKey = `${this.options.prefix}:${key}`;
+    const { requests, window } = this.options;
+    const now = Date.now();
+
+    const step = await this.storage.update(storageKey, (state) =>
+      this.counter(state, { requests, window }, now),
+    );
+
+    return step.result;
+  }
+
+  /**
+   * Check the request and apply the outcome to the context.
+   * Returns the rejection response when the request is over the limit,
+   * otherwise null.
+   */
+  async limit(context: MiddlewareContext<T>): Promise<MiddlewareResult> {
+    const result = await this.check(context);
+    if (!result) return null;
+
+    context.metadata.rateLimit = result;
+
+    if (result.limited) {
+      await this.options.onLimitExceeded?.(context, result);
+    }
+    if (this.options.dryRun) return null;
+
+    const headers = this.options.headers ? this.getHeaders(result) : {};
+    for (const [name, value] of Object.entries(headers)) {
+      context.responseHeaders.set(name, value);
+    }
+
+    if (!result.limited) return null;
+
+    return this.options.response
+      ? this.options.response(context, result)
+      : Responses.tooManyRequests('Rate limit exceeded');
+  }
+
+  /**
+   * Standard `RateLimit-*` headers for a result, plus `Retry-After` when
+   * the request was limited.
+   */
+  getHeaders(result: RateLimitResult): Record<string, string> {
+    const resetSeconds = Math.max(
+      0,
+      Math.ceil((result.reset - Date.now()) / 1000),
+    );
+    const headers: Record<string, string> = {
+      'RateLimit-Limit': String(result.limit),
+      'RateLimit-Remaining': String(result.remaining),
+      'RateLimit-Reset': String(resetSeconds),
+      'RateLimit-Policy': `${result.limit};w=${Math.ceil(this.options.window / 1000)}`,
+    };
+    if (result.retryAfter !== undefined) {
+      headers['Retry-After'] = String(result.retryAfter);
+    }
+    return headers;
+  }
+}
@@ -0,0 +1,124 @@
+import { MiddlewareContext, MiddlewareResult } from '../types/core';
+
+/**
+ * Algorithm used to count requests
+ * - `fixed-window`: counts requests in consecutive windows
+ * - `sliding-window`: weights the previous window to smooth out bursts at
+ *   window boundaries
+ * - `token-bucket`: refills `requests` tokens per window and allows bursts
+ *   up to the bucket size
+ */
+export type RateLimitAlgorithm =
+  | 'fixed-window'
+  | 'sliding-window'
+  | 'token-bucket';
+
+/**
+ * Counter state stored for a rate limit key.
+ * The fields depend on the algorithm.
+ */
+export type RateLimitState = Record<string, number>;
+
+/**
+ * New state for a rate limit key, and how long to keep it in milliseconds
+ */
+export interface RateLimitUpdate {
+  state: RateLimitState;
+  ttl: number;
+}
+
+/**
+ * Interface for rate limit storage implementations
+ */
+export interface RateLimitStorage {
+  /** Retrieve the state stored for a key */
+  get(
+    key: string,
+  ): Promise<RateLimitState | null | undefined> | RateLimitState | null;
+  /** Store the state for a key, expiring after `ttl` milliseconds */
+  set(key: string, state: RateLimitState, ttl: number): Promise<void> | void;
+  /**
+   * Atomically read the state of a key, pass it to `apply` and store the
+   * state it returns, expiring after its `ttl`. Updates of the same key
+   * must not interleave, or concurrent requests are lost from the count;
+   * shared stores need a transaction, compare-and-set or script.
+   * Returns the value of `apply`.
+   */
+  update<U extends RateLimitUpdate>(
+    key: string,
+    apply: (state: RateLimitState | null | undefined) => U,
+  ): Promise<U> | U;
+  /** Delete the state stored for a key */
+  delete(key: string): Promise<void> | void;
+}
+
+/**
+ * Outcome of a rate limit check
+ */
+export interface RateLimitResult {
+  /** Whether the request exceeded the limit */
+  limited: boolean;
+  /** Maximum number of requests per window */
+  limit: number;
+  /** Requests left in the current window */
+  remaining: number;
+  /** Timestamp (ms) when the quota is fully available again */
+  reset: number;
+  /** Seconds to wait before retrying, when limited */
+  retryAfter?: number;
+}
+
+/**
+ * Function returning the key requests are counted under.
+ * Returning null skips rate limiting for the request.
+ */
+export type RateLimitKeyFn<T = any> = (
+  context: MiddlewareContext<T>,
+) => Promise<string | null> | string | null;
+
+/**
+ * Configuration options for a rate limiter
+ */
+export interface RateLimitOptions<T = any> {
+  /** Maximum number of requests per window */
+  requests: number;
+  /** Window length in milliseconds */
+  window: number;
+  /** Counting algorithm, defaults to `sliding-window` */
+  algorithm?: RateLimitAlgorithm;
+  /**
+   * Storage for counters, defaults to a `MemoryRateLimitStorage` of the
+   * limiter's own. Requires `prefix`.
+   */
+  storage?: RateLimitStorage;
+  /** Key requests are counted under, defaults to the client IP */
+  key?: RateLimitKeyFn<T>;
+  /**
+   * Prefix for storage keys. Required with `storage`, as limiters sharing
+   * a storage need distinct prefixes that stay the same across instances
+   * and deployments.
+   */
+  prefix?: string;
+  /** Whether to send `RateLimit-*` and `Retry-After` headers */
+  headers?: boolean;
+  /** Only report requests over the limit instead of rejecting them */
+  dryRun?: boolean;
+  /** Called whenever a request exceeds the limit, including in dry-run mode */
+  onLimitExceeded?: (
+    context: MiddlewareContext<T>,
+    result: RateLimitResult,
+  ) => void | Promise<void>;
+  /** Create the response for rejected requests, defaults to a 429 JSON error */
+  response?: (
+    context: MiddlewareContext<T>,
+    result: RateLimitResult,
+  ) => MiddlewareResult;
+}
+
+/**
+ * Configuration options for the in-memory rate limit storage
+ */
+export interface MemoryRateLimitStorageOptions {
+  /** Maximum number of tracked keys before the least recently used is evicted */
+  maxKeys?: number;
+}
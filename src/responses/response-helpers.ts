@@ -1,5 +1,12 @@
 import { NextResponse } from 'next/server';
-import { MiddlewareResponses } from './types';
+import { serializeCookie } from '../utils/cookies';
+import {
+  BodyResponseOptions,
+  MiddlewareResponses,
+  RedirectResponseOptions,
+  ResponseOptions,
+  UrlBase,
+} from './types';
 
 /**
  * Collection of helper functions for creating common middleware responses.
@@ -9,25 +16,80 @@ export const Responses: MiddlewareResponses = {
   /**
    * Creates a response that continues to the next middleware or handler.
    */
-  next: () => NextResponse.next(),
+  next: (options) => withOptions(NextResponse.next(), options),
 
   /**
-   * Creates a redirect response to the specified URL.
+   * Creates a temporary redirect response to the specified URL.
+   * Pass the request as `base` so relative URLs keep its origin.
    */
-  redirect: (url: string, baseUrl?: string) => {
-    const baseURL =
-      baseUrl ||
-      (typeof window !== 'undefined'
-        ? window.location.origin
-        : 'http://localhost:3000');
-    return NextResponse.redirect(new URL(url, baseURL));
+  redirect: (
+    url: string | URL,
+    base?: UrlBase,
+    options: RedirectResponseOptions = {},
+  ) => {
+    return withOptions(
+      NextResponse.redirect(resolveUrl(url, base), options.status ?? 307),
+      options,
+    );
+  },
+
+  /**
+   * Creates a permanent redirect response to the specified URL.
+   */
+  permanentRedirect: (url, base, options) => {
+    return withOptions(
+      NextResponse.redirect(resolveUrl(url, base), 308),
+      options,
+    );
+  },
+
+  /**
+   * Creates a rewrite to an internal path or an external origin.
+   */
+  rewrite: (destination, base, options = {}) => {
+    const url = resolveUrl(destination, base);
+    const baseUrl = resolveUrl('', base);
+    if (options.preserveQuery !== false && !url.search) {
+      url.search = baseUrl.search;
+    }
+    return withOptions(NextResponse.rewrite(url), options);
   },
 
   /**
    * Creates a JSON response with the specified data and status code.
    */
-  json: (data: any, status = 200) => {
-    return NextResponse.json(data, { status });
+  json: (data: any, init?: number | BodyResponseOptions) => {
+    const options = toOptions(init);
+    return withOptions(
+      NextResponse.json(data, { status: options.status }),
+      options,
+    );
+  },
+
+  /**
+   * Creates a plain text response.
+   */
+  text: (body, init) => {
+    return createBodyResponse(body, 'text/plain; charset=utf-8', init);
+  },
+
+  /**
+   * Creates an HTML response.
+   */
+  html: (body, init) => {
+    return createBodyResponse(body, 'text/html; charset=utf-8', init);
+  },
+
+  /**
+   * Creates an RFC 7807 problem details response.
+   */
+  problem: (details, options) => {
+    const problem = { type: 'about:blank', status: 500, ...details };
+    return createBodyResponse(
+      JSON.stringify(problem),
+      'application/problem+json',
+      { ...options, status: problem.status },
+    );
   },
 
   /**
@@ -50,4 +112,89 @@ export const Responses: MiddlewareResponses = {
   notFound: (message = 'Not Found') => {
     return NextResponse.json({ error: message }, { status: 404 });
   },
+
+  /**
+   * Creates a method not allowed (405) response.
+   */
+  methodNotAllowed: (allowed, message = 'Method Not Allowed') => {
+    return NextResponse.json(
+      { error: message },
+      { status: 405, headers: { Allow: allowed.join(', ') } },
+    );
+  },
+
+  /**
+   * Creates a too many requests (429) response.
+   */
+  tooManyRequests: (message = 'Too Many Requests', retryAfter) => {
+    return NextResponse.json(
+      { error: message },
+      { status: 429, headers: retryAfterHeader(retryAfter) },
+    );
+  },
+
+  /**
+   * Creates a service unavailable (503) response.
+   */
+  serviceUnavailable: (message = 'Service Unavailable', retryAfter) => {
+    return NextResponse.json(
+      { error: message },
+      { status: 503, headers: retryAfterHeader(retryAfter) },
+    );
+  },
 };
+
+/**
+ * Resolve a URL against the base, falling back to the current origin in
+ * the browser or localhost when no base is given (deprecated, only
+ * `redirect` allows it).
+ */
+function resolveUrl(url: string | URL, base?: UrlBase): URL {
+  const baseUrl =
+    base === undefined
+      ? typeof window !== 'undefined'
+        ? window.location.origin
+        : 'http://localhost:3000'
+      : typeof base === 'string' || base instanceof URL
+        ? base
+        : base.url;
+  return new URL(url, baseUrl);
+}
+
+function toOptions(init?: number | BodyResponseOptions): BodyResponseOptions {
+  return typeof init === 'number' ? { status: init } : (init ?? {});
+}
+
+function createBodyResponse(
+  body: string,
+  contentType: string,
+  init?: number | BodyResponseOptions,
+): NextResponse {
+  const options = toOptions(init);
+  return withOptions(
+    new NextResponse(body, {
+      status: options.status ?? 200,
+      headers: { 'Content-Type': contentType },
+    }),
+    options,
+  );
+}
+
+function withOptions(
+  response: NextResponse,
+  options: ResponseOptions = {},
+): NextResponse {
+  new Headers(options.headers).forEach((value, name) => {
+    response.headers.set(name, value);
+  });
+  for (const { name, value, options: cookie } of options.cookies ?? []) {
+    response.headers.append('set-cookie', serializeCookie(name, value, cookie));
+  }
+  return response;
+}
+
+function retryAfterHeader(retryAfter?: number): Record<string, string> {
+  return retryAfter === undefined
+    ? {}
+    : { 'Retry-After': String(Math.max(0, Math.ceil(retryAfter))) };
+}
@@ -1,19 +1,128 @@
 import { NextResponse } from 'next/server';
+import { ResponseCookie } from '../types/core';
+
+/**
+ * Base for relative URLs: the request, or its URL
+ */
+export type UrlBase = string | URL | { url: string };
+
+/**
+ * Extra headers and cookies for a response
+ */
+export interface ResponseOptions {
+  /** Headers added to the response */
+  headers?: HeadersInit;
+  /** Cookies set on the response */
+  cookies?: ResponseCookie[];
+}
+
+/**
+ * Options for responses with a body
+ */
+export interface BodyResponseOptions extends ResponseOptions {
+  /** Status code (defaults to 200) */
+  status?: number;
+}
+
+/**
+ * Options for redirect responses
+ */
+export interface RedirectResponseOptions extends ResponseOptions {
+  /** Status code (defaults to 307, or 308 for permanent redirects) */
+  status?: 301 | 302 | 303 | 307 | 308;
+}
+
+/**
+ * Options for rewrite responses
+ */
+export interface RewriteResponseOptions extends ResponseOptions {
+  /**
+   * Keep the request's query string when the destination has none
+   * (defaults to true)
+   */
+  preserveQuery?: boolean;
+}
+
+/**
+ * RFC 7807 problem details. Extra members are sent as extensions.
+ */
+export interface ProblemDetails {
+  /** URI identifying the problem type (defaults to `about:blank`) */
+  type?: string;
+  /** Short summary of the problem type */
+  title?: string;
+  /** Status code (defaults to 500) */
+  status?: number;
+  /** Explanation of this occurrence */
+  detail?: string;
+  /** URI identifying this occurrence */
+  instance?: string;
+  [extension: string]: unknown;
+}
 
 /**
  * Helper response functions for common middleware responses
  */
 export interface MiddlewareResponses {
   /** Create a NextResponse that continues to the next middleware */
-  next(): NextResponse;
-  /** Create a redirect response */
-  redirect(url: string, baseUrl?: string): NextResponse;
+  next(options?: ResponseOptions): NextResponse;
+  /**
+   * Create a temporary redirect response.
+   * Relative URLs resolve against `base`, normally the request.
+   */
+  redirect(
+    url: string | URL,
+    base: UrlBase,
+    options?: RedirectResponseOptions,
+  ): NextResponse;
+  /**
+   * @deprecated Pass the request as `base`. Without it, relative URLs
+   * resolve against the browser's origin, or `http://localhost:3000` on
+   * the server.
+   */
+  redirect(url: string | URL): NextResponse;
+  /**
+   * Create a permanent (308) redirect response.
+   * Relative URLs resolve against `base`, normally the request.
+   */
+  permanentRedirect(
+    url: string | URL,
+    base: UrlBase,
+    options?: ResponseOptions,
+  ): NextResponse;
+  /**
+   * Serve another path, or proxy another origin, without changing the URL
+   * the browser shows
+   */
+  rewrite(
+    destination: string | URL,
+    base: UrlBase,
+    options?: RewriteResponseOptions,
+  ): NextResponse;
   /** Create a JSON response */
-  json(data: any, status?: number): NextResponse;
+  json(data: any, init?: number | BodyResponseOptions): NextResponse;
+  /** Create a plain text response */
+  text(body: string, init?: number | BodyResponseOptions): NextResponse;
+  /** Create an HTML response */
+  html(body: string, init?: number | BodyResponseOptions): NextResponse;
+  /** Create an `application/problem+json` response (RFC 7807) */
+  problem(details: ProblemDetails, options?: ResponseOptions): NextResponse;
   /** Create an unauthorized (401) response */
   unauthorized(message?: string): NextResponse;
   /** Create a forbidden (403) response */
   forbidden(message?: string): NextResponse;
   /** Create a not found (404) response */
   notFound(message?: string): NextResponse;
+  /** Create a method not allowed (405) response with an `Allow` header */
+  methodNotAllowed(allowed: string[], message?: string): NextResponse;
+  /**
+   * Create a too many requests (429) response, with `Retry-After` when
+   * given in seconds
+   */
+  tooManyRequests(message?: string, retryAfter?: number): NextResponse;
+  /**
+   * Create a service unavailable (503) response, with `Retry-After` when
+   * given in seconds
+   */
+  serviceUnavailable(message?: string, retryAfter?: number): NextResponse;
 }
@@ -1,6 +1,12 @@
-import { MiddlewareRule } from '../types/core';
-import { RuleFactories } from './types';
+import { MiddlewareRule, SignInOptions } from '../types/core';
+import { RuleFactories, RuleInfo } from './types';
 import { Responses } from '../responses/response-helpers';
+import { defineRule } from './rule-info';
+import { allOf, anyOf, not, when, unless } from './combinators';
+import { csrf } from './csrf';
+import { flag } from './flag';
+import { RateLimiter } from '../rate-limit/rate-limiter';
+import { RateLimitOptions } from '../rate-limit/types';
 
 /**
  * Collection of built-in rule factories for common middleware patterns.
@@ -9,102 +15,134 @@ import { Responses } from '../responses/response-helpers';
 export const Rules: RuleFactories<any> = {
   /**
    * Creates a rule that requires the user to be logged in.
-   * Redirects to /sign-in if user data is not present.
+   * Redirects to the builder's sign-in page if user data is not present,
+   * keeping the requested URL as the callback. Options override the
+   * builder's sign-in settings for this rule.
    */
-  isLoggedIn:
-    () =>
-    ({ data }) => {
-      if (data) {
-        return null;
-      } else {
-        return Responses.redirect('/sign-in');
-      }
-    },
+  isLoggedIn: (options?: SignInOptions) =>
+    defineRule(
+      async ({ load, redirectToSignIn }) => {
+        if (await load('user')) {
+          return null;
+        } else {
+          return redirectToSignIn(options);
+        }
+      },
+      { needsData: true, name: 'isLoggedIn' },
+    ),
 
   /**
    * Creates a rule that requires the user to not be logged in.
-   * Redirects to home if user is already authenticated.
+   * Redirects authenticated users to the callback URL when it is safe,
+   * or to the given destination (home by default).
    */
-  isNotLoggedIn:
-    () =>
-    ({ data }) => {
-      if (!data) {
-        return Responses.next();
-      } else {
-        return Responses.redirect('/');
-      }
-    },
+  isNotLoggedIn: (destination = '/') =>
+    defineRule(
+      async ({ load, req, getCallbackUrl }) => {
+        if (!(await load('user'))) {
+          return Responses.next();
+        } else {
+          return Responses.redirect(getCallbackUrl() ?? destination, req.url);
+        }
+      },
+      { needsData: true, name: 'isNotLoggedIn' },
+    ),
 
   /**
    * Creates a rule that requires the user to have a specific role.
    * Returns forbidden if user doesn't have the required role.
    */
-  hasRole:
-    (role: string) =>
-    ({ data }) => {
-      if (data?.role === role || data?.roles?.includes(role)) {
-        return null;
-      } else {
-        return Responses.forbidden(`Required role: ${role}`);
-      }
-    },
+  hasRole: (role: string) =>
+    defineRule(
+      async ({ load }) => {
+        const data = await load('user');
+        if (data?.role === role || data?.roles?.includes(role)) {
+          return null;
+        } else {
+          return Responses.forbidden(`Required role: ${role}`);
+        }
+      },
+      { needsData: true, name: `hasRole(${role})` },
+    ),
 
   /**
    * Creates a rule that requires the user to have a specific permission.
    * Returns forbidden if user doesn't have the required permission.
    */
-  hasPermission:
-    (permission: string) =>
-    ({ data }) => {
-      if (data?.permissions?.includes(permission)) {
-        return null;
-      } else {
-        return Responses.forbidden(`Required permission: ${permission}`);
-      }
-    },
+  hasPermission: (permission: string) =>
+    defineRule(
+      async ({ load }) => {
+        const data = await load('user');
+        if (data?.permissions?.includes(permission)) {
+          return null;
+        } else {
+          return Responses.forbidden(`Required permission: ${permission}`);
+        }
+      },
+      { needsData: true, name: `hasPermission(${permission})` },
+    ),
 
   /**
    * Creates a rule that always redirects to the specified destination.
    */
-  redirectTo: (destination: string) => () => {
-    return Responses.redirect(destination);
-  },
+  redirectTo: (destination: string) =>
+    defineRule(
+      ({ req }) => {
+        return Responses.redirect(destination, req.url);
+      },
+      { needsData: false, name: `redirectTo(${destination})` },
+    ),
 
   /**
-   * Creates a rate limiting rule that tracks requests per IP address.
-   * Returns 429 status when rate limit is exceeded.
+   * Creates a rule that rewrites to the specified destination, serving
+   * another path or origin without changing the URL.
    */
-  rateLimit: (options: { requests: number; window: number }) => {
-    const requests = new Map<string, number[]>();
-
-    return ({ req }) => {
-      const ip =
-        req.headers.get('x-forwarded-for') ||
-        req.headers.get('x-real-ip') ||
-        'unknown';
-      const now = Date.now();
-      const windowStart = now - options.window;
-
-      if (!requests.has(ip)) {
-        requests.set(ip, []);
-      }
+  rewriteTo: (destination: string) =>
+    defineRule(
+      ({ req }) => {
+        return Responses.rewrite(destination, req);
+      },
+      { needsData: false, name: `rewriteTo(${destination})` },
+    ),
 
-      const userRequests = requests.get(ip)!;
-      const validRequests = userRequests.filter((time) => time > windowStart);
-
-      if (validRequests.length >= options.requests) {
-        return Responses.json({ error: 'Rate limit exceeded' }, 429);
-      }
+  /**
+   * Creates a rule that runs the rule for the flag's variant, such as `on`,
+   * `off` or an A/B variant name. Variants without a rule pass.
+   * Requires the `FeatureFlagsPlugin`.
+   */
+  flag,
 
-      validRequests.push(now);
-      requests.set(ip, validRequests);
+  /**
+   * Creates a CSRF protection rule.
+   * Issues a token cookie on safe requests and rejects unsafe requests
+   * from other origins or without a matching token.
+   */
+  csrf,
 
-      return null;
-    };
+  /**
+   * Creates a rate limiting rule.
+   * Counts requests per client IP by default, sends `RateLimit-*` headers
+   * and returns 429 when the limit is exceeded. Every rule keeps its own
+   * counters, so routes can have different limits.
+   */
+  rateLimit: (options: RateLimitOptions) => {
+    const limiter = new RateLimiter(options);
+    return defineRule((context) => limiter.limit(context), {
+      needsData: false,
+      name: 'rateLimit',
+    });
   },
 
   /**
    * Wraps a custom rule function.
+   * Pass `{ needsData: false }` if the rule never reads user data.
    */
-  custom: (fn: MiddlewareRule<any>) => fn,
+  custom: (fn: MiddlewareRule<any>, info?: RuleInfo) =>
+    info ? defineRule(fn, info) : fn,
+
+  allOf,
+  anyOf,
+  not,
+  when,
+  unless,
 };
@@ -0,0 +1,153 @@
+import {
+  ContextExtension,
+  MiddlewareContext,
+  MiddlewareResult,
+  MiddlewareRule,
+  RouteParams,
+} from '../types/core';
+import { NoInfer } from '../types/utils';
+import { Responses } from '../responses/response-helpers';
+import { defineRule, getRuleInfo, recordDecision } from './rule-info';
+import { RulePredicate } from './types';
+
+/**
+ * Combine rules so the result passes only if every rule passes.
+ * Rules run in order and the first one returning a response decides the
+ * outcome; later rules do not run.
+ */
+export function allOf<
+  T = any,
+  P = RouteParams,
+  X extends ContextExtension = {},
+>(...rules: NoInfer<MiddlewareRule<T, P, X>>[]): MiddlewareRule<T, P, X> {
+  const combined: MiddlewareRule<T, P, X> = async (context) => {
+    for (const rule of rules) {
+      const result = await rule(context);
+      if (result) {
+        recordDecision(context, combined, rule);
+        return result;
+      }
+    }
+    if (rules.length) {
+      recordDecision(context, combined, rules[rules.length - 1]!);
+    }
+    return null;
+  };
+
+  return defineRule(combined, combinatorInfo('allOf', rules));
+}
+
+/**
+ * Combine rules so the result passes if any rule passes.
+ * Rules run in order until one passes. If every rule fails, the response
+ * of the first rule is returned and the other responses are discarded.
+ */
+export function anyOf<
+  T = any,
+  P = RouteParams,
+  X extends ContextExtension = {},
+>(...rules: NoInfer<MiddlewareRule<T, P, X>>[]): MiddlewareRule<T, P, X> {
+  const combined: MiddlewareRule<T, P, X> = async (context) => {
+    let firstFailure: {
+      rule: MiddlewareRule<T, P, X>;
+      result: MiddlewareResult;
+    } | null = null;
+
+    for (const rule of rules) {
+      const result = await rule(context);
+      if (!result) {
+        recordDecision(context, combined, rule);
+        return null;
+      }
+      firstFailure ??= { rule, result };
+    }
+
+    if (!firstFailure) return null;
+    recordDecision(context, combined, firstFailure.rule);
+    return firstFailure.result;
+  };
+
+  return defineRule(combined, combinatorInfo('anyOf', rules));
+}
+
+/**
+ * Invert a rule: passes when the rule returns a response, and responds
+ * with `response` (403 Forbidden by default) when the rule passes.
+ */
+export function not<T = any, P = RouteParams, X extends ContextExtension = {}>(
+  rule: NoInfer<MiddlewareRule<T, P, X>>,
+  response: NoInfer<
+    (context: MiddlewareContext<T, P> & X) => MiddlewareResult
+  > = () => Responses.forbidden(),
+): MiddlewareRule<T, P, X> {
+  const combined: MiddlewareRule<T, P, X> = async (context) => {
+    const result = await rule(context);
+    recordDecision(context, combined, rule);
+    return result ? null : response(context);
+  };
+
+  return defineRule(combined, combinatorInfo('not', [rule]));
+}
+
+/**
+ * Run the rules, as with `allOf`, only when the predicate holds.
+ * Passes without running them otherwise.
+ */
+export function when<T = any, P = RouteParams, X extends ContextExtension = {}>(
+  predicate: NoInfer<RulePredicate<T, P, X>>,
+  ...rules: NoInfer<MiddlewareRule<T, P, X>>[]
+): MiddlewareRule<T, P, X> {
+  return conditional('when', predicate, true, rules);
+}
+
+/**
+ * Run the rules, as with `allOf`, only when the predicate does not hold.
+ * Passes without running them otherwise.
+ */
+export function unless<
+  T = any,
+  P = RouteParams,
+  X extends ContextExtension = {},
+>(
+  predicate: NoInfer<RulePredicate<T, P, X>>,
+  ...rules: NoInfer<MiddlewareRule<T, P, X>>[]
+): MiddlewareRule<T, P, X> {
+  return conditional('unless', predicate, false, rules);
+}
+
+function conditional<T, P, X extends ContextExtension>(
+  name: string,
+  predicate: NoInfer<RulePredicate<T, P, X>>,
+  expected: boolean,
+  rules: MiddlewareRule<T, P, X>[],
+): MiddlewareRule<T, P, X> {
+  const body = allOf<T, P, X>(...rules);
+
+  const combined: MiddlewareRule<T, P, X> = async (context) => {
+    if (Boolean(await predicate(context)) !== expected) {
+      recordDecision(context, combined, predicate);
+      return null;
+    }
+    const result = await body(context);
+    recordDecision(context, combined, body);
+    return result;
+  };
+
+  const info = combinatorInfo(name, rules);
+  return defineRule(combined, {
+    ...info,
+    needsData: info.needsData || getRuleInfo(predicate)?.needsData !== false,
+  });
+}
+
+/**
+ * A combinator reads user data if any of its rules does, so the user is
+ * still loaded lazily before it runs.
+ */
+function combinatorInfo(name: string, rules: MiddlewareRule<any, any, any>[]) {
+  return {
+    name,
+    children: rules as MiddlewareRule<any, any>[],
+    needsData: rules.some((rule) => getRuleInfo(rule)?.needsData !== false),
+  };
+}
@@ -0,0 +1,207 @@
+import { MiddlewareContext, MiddlewareRule } from '../types/core';
+import { Responses } from '../responses/response-helpers';
+import { base64UrlEncode, toBytes } from '../auth/encoding';
+import { matchPattern } from '../utils/priority';
+import { defineRule } from './rule-info';
+import { CsrfFailure, CsrfOptions } from './types';
+
+const safeMethods = ['GET', 'HEAD', 'OPTIONS', 'TRACE'];
+
+/**
+ * Create a CSRF protection rule.
+ *
+ * Safe requests pass and receive a token cookie if they do not have a
+ * valid one yet. Unsafe requests must come from an allowed origin and send
+ * the cookie's token back in a header or form field.
+ */
+export function csrf<T = any>(options: CsrfOptions<T> = {}): MiddlewareRule<T> {
+  const {
+    mode = 'double-submit',
+    secret,
+    binding,
+    cookie = 'csrf_token',
+    cookieOptions = {},
+    header = 'x-csrf-token',
+    formField = '_csrf',
+    checkOrigin = true,
+    allowedOrigins = [],
+    exempt = [],
+    response = () => Responses.forbidden('Invalid CSRF token'),
+  } = options;
+
+  if (mode === 'signed-token' && !secret) {
+    throw new Error('CSRF signed-token mode requires a secret');
+  }
+
+  const key =
+    mode === 'signed-token'
+      ? crypto.subtle.importKey(
+          'raw',
+          toBytes(secret!),
+          { name: 'HMAC', hash: 'SHA-256' },
+          false,
+          ['sign'],
+        )
+      : null;
+
+  const getBinding = async (context: MiddlewareContext<T>) => {
+    if (!binding) return '';
+    await context.load('user');
+    return (await binding(context)) ?? '';
+  };
+
+  const sign = async (nonce: string, context: MiddlewareContext<T>) => {
+    const message = `${await getBinding(context)}.${nonce}`;
+    const signature = await crypto.subtle.sign(
+      'HMAC',
+      await key!,
+      toBytes(message),
+    );
+    return base64UrlEncode(new Uint8Array(signature));
+  };
+
+  const isValidToken = async (
+    token: string | undefined,
+    context: MiddlewareContext<T>,
+  ) => {
+    if (!token) return false;
+    if (mode === 'double-submit') return true;
+
+    const [nonce, signature] = token.split('.');
+    return Boolean(
+      nonce && signature && safeEqual(signature, await sign(nonce, context)),
+    );
+  };
+
+  const createToken = async (context: MiddlewareContext<T>) => {
+    const nonce = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+    return mode === 'signed-token'
+      ? `${nonce}.${await sign(nonce, context)}`
+      : nonce;
+  };
+
+  return defineRule(
+    async (context: MiddlewareContext<T>) => {
+      const { req } = context;
+      if (isExempt(context.path, exempt)) return null;
+
+      const cookieToken = req.cookies.get(cookie)?.value;
+
+      if (safeMethods.includes(req.method.toUpperCase())) {
+        if (await isValidToken(cookieToken, context)) {
+          context.metadata.csrfToken = cookieToken;
+          return null;
+        }
+
+        const token = await createToken(context);
+        context.metadata.csrfToken = token;
+        context.responseCookies.set(cookie, token, {
+          sameSite: 'lax',
+          secure: req.nextUrl.protocol === 'https:',
+          ...cookieOptions,
+        });
+        return null;
+      }
+
+      const reject = (failure: CsrfFailure) => response(context, failure);
+
+      if (checkOrigin && !isAllowedOrigin(context, allowedOrigins)) {
+        return reject('origin');
+      }
+
+      const requestToken =
+        req.headers.get(header) ??
+        (formField ? await readFormField(context, formField) : null);
+      if (!requestToken || !cookieToken) {
+        return reject('missing-token');
+      }
+      if (
+        !safeEqual(requestToken, cookieToken) ||
+        !(await isValidToken(cookieToken, context))
+      ) {
+        return reject('invalid-token');
+      }
+
+      return null;
+    },
+    // A binding loads the user only when a token is signed or checked.
+    { needsData: false, name: 'csrf' },
+  );
+}
+
+/**
+ * Check the `Origin` header, or the `Referer` header if there is no
+ * origin. Requests sending neither are left to the token check.
+ */
+function isAllowedOrigin(
+  context: MiddlewareContext<any>,
+  allowedOrigins: string[],
+): boolean {
+  const { req } = context;
+  let origin = req.headers.get('origin');
+
+  if (!origin) {
+    const referer = req.headers.get('referer');
+    if (!referer) return true;
+    try {
+      origin = new URL(referer).origin;
+    } catch {
+      return false;
+    }
+  }
+
+  return (
+    origin === req.nextUrl.origin ||
+    allowedOrigins.some((allowed) => normalizeOrigin(allowed) === origin)
+  );
+}
+
+async function readFormField(
+  context: MiddlewareContext<any>,
+  field: string,
+): Promise<string | null> {
+  const contentType = context.req.headers.get('content-type') ?? '';
+  if (
+    !contentType.startsWith('application/x-www-form-urlencoded') &&
+    !contentType.startsWith('multipart/form-data')
+  ) {
+    return null;
+  }
+
+  try {
+    const value = (await context.req.clone().formData()).get(field);
+    return typeof value === 'string' ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function isExempt(path: string, exempt: (string | RegExp)[]): boolean {
+  return exempt.some((pattern) => {
+    if (pattern instanceof RegExp) {
+      return pattern.test(path);
+    }
+    return matchPattern(path, pattern, !pattern.endsWith('/*')) !== null;
+  });
+}
+
+function normalizeOrigin(origin: string): string {
+  try {
+    return new URL(origin).origin;
+  } catch {
+    return origin;
+  }
+}
+
+/**
+ * Compare two strings in time independent of where they differ.
+ */
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
@@ -0,0 +1,41 @@
+import {
+  ContextExtension,
+  MiddlewareContext,
+  MiddlewareRule,
+  RouteParams,
+} from '../types/core';
+import { NoInfer } from '../types/utils';
+import { FeatureFlagsContextExtension } from '../plugins/feature-flags/types';
+import { defineRule, getRuleInfo, recordDecision } from './rule-info';
+
+/**
+ * Run the rule for the variant a feature flag takes in this request.
+ * Variants without a rule pass. The flag itself loads the user when it
+ * needs to bucket them, so only the variant rules decide `needsData`.
+ */
+export function flag<T = any, P = RouteParams, X extends ContextExtension = {}>(
+  name: string,
+  variants: NoInfer<Record<string, MiddlewareRule<T, P, X>>>,
+): MiddlewareRule<T, P, X> {
+  const rules = Object.values(variants);
+
+  const combined: MiddlewareRule<T, P, X> = async (context) => {
+    const { flags } = context as MiddlewareContext<T, P> &
+      Partial<FeatureFlagsContextExtension>;
+    if (!flags) {
+      throw new Error(`Rules.flag('${name}') requires the FeatureFlagsPlugin`);
+    }
+
+    const rule = variants[await flags.variant(name)];
+    if (!rule) return null;
+
+    recordDecision(context, combined, rule);
+    return rule(context);
+  };
+
+  return defineRule(combined, {
+    name: `flag(${name})`,
+    children: rules as MiddlewareRule<any, any>[],
+    needsData: rules.some((rule) => getRuleInfo(rule)?.needsData !== false),
+  });
+}
@@ -0,0 +1,76 @@
+import { MiddlewareContext, MiddlewareRule } from '../types/core';
+import { RuleDescription, RuleInfo } from './types';
+
+type AnyRule = (context: any) => unknown;
+
+const ruleInfo = new WeakMap<Function, RuleInfo>();
+const decisions = new WeakMap<
+  MiddlewareContext<any, any>,
+  WeakMap<Function, AnyRule>
+>();
+
+/**
+ * Attach information to a rule, such as whether it reads user data.
+ * Returns the same rule so it can wrap rule definitions inline.
+ * Also accepts `when`/`unless` predicates.
+ */
+export function defineRule<R extends AnyRule>(rule: R, info: RuleInfo): R {
+  ruleInfo.set(rule, { ...ruleInfo.get(rule), ...info });
+  return rule;
+}
+
+/**
+ * Read the information attached to a rule, if any.
+ */
+export function getRuleInfo(rule: AnyRule): RuleInfo | undefined {
+  return ruleInfo.get(rule);
+}
+
+/**
+ * Describe a rule and, for combinators, the rules it is built from.
+ */
+export function describeRule(rule: MiddlewareRule<any, any>): RuleDescription {
+  const info = getRuleInfo(rule);
+  const description: RuleDescription = {
+    name: info?.name || rule.name || 'anonymous',
+    needsData: info?.needsData !== false,
+  };
+  if (info?.children) {
+    description.children = info.children.map(describeRule);
+  }
+  return description;
+}
+
+/**
+ * Record which sub-rule decided a combinator's outcome for a request.
+ */
+export function recordDecision(
+  context: MiddlewareContext<any, any>,
+  rule: AnyRule,
+  decidedBy: AnyRule,
+): void {
+  let byRule = decisions.get(context);
+  if (!byRule) {
+    byRule = new WeakMap();
+    decisions.set(context, byRule);
+  }
+  byRule.set(rule, decidedBy);
+}
+
+/**
+ * Find the rule that decided a combinator's outcome for the request,
+ * following nested combinators down to the deciding leaf rule.
+ * Returns undefined if the rule is not a combinator or has not run.
+ */
+export function getDecidingRule(
+  context: MiddlewareContext<any, any>,
+  rule: MiddlewareRule<any, any>,
+): MiddlewareRule<any, any> | undefined {
+  const byRule = decisions.get(context);
+  let decided = byRule?.get(rule);
+
+  while (decided && byRule?.has(decided)) {
+    decided = byRule.get(decided);
+  }
+  return decided as MiddlewareRule<any, any> | undefined;
+}
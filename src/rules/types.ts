@@ -1,21 +1,149 @@
-import { MiddlewareRule } from '../types/core';
+import {
+  ContextExtension,
+  CookieOptions,
+  MiddlewareContext,
+  MiddlewareResult,
+  MiddlewareRule,
+  RouteParams,
+  SignInOptions,
+} from '../types/core';
+import { NoInfer } from '../types/utils';
+import { RateLimitOptions } from '../rate-limit/types';
+
+/**
+ * Information attached to a rule that the builder can act on
+ */
+export interface RuleInfo {
+  /**
+   * Whether the rule reads `context.data`.
+   * The user is fetched lazily before the first rule that needs it;
+   * rules without this information are assumed to need it.
+   */
+  needsData?: boolean;
+  /** Name shown when describing or logging the rule */
+  name?: string;
+  /** Rules a combinator is built from */
+  children?: MiddlewareRule<any, any>[];
+}
+
+/**
+ * Structure of a rule, as returned by `describeRule`
+ */
+export interface RuleDescription {
+  /** Rule name, or `anonymous` for unnamed functions */
+  name: string;
+  /** Whether the rule reads user data */
+  needsData: boolean;
+  /** Descriptions of the rules a combinator is built from */
+  children?: RuleDescription[];
+}
+
+/**
+ * Condition used by the `when` and `unless` combinators.
+ * Predicates are assumed to read user data unless defined with
+ * `defineRule(predicate, { needsData: false })`.
+ */
+export type RulePredicate<
+  T = any,
+  P = RouteParams,
+  X extends ContextExtension = {},
+> = (context: MiddlewareContext<T, P> & X) => boolean | Promise<boolean>;
+
+/**
+ * Why a request failed CSRF protection
+ */
+export type CsrfFailure = 'origin' | 'missing-token' | 'invalid-token';
+
+/**
+ * Configuration options for the CSRF rule
+ */
+export interface CsrfOptions<T = any> {
+  /**
+   * `double-submit` compares the request token with the token cookie
+   * (default). `signed-token` also requires the token to be signed with
+   * `secret`, optionally bound to the session through `binding`.
+   */
+  mode?: 'double-submit' | 'signed-token';
+  /** Secret used to sign tokens in `signed-token` mode */
+  secret?: string;
+  /**
+   * Value tokens are bound to in `signed-token` mode, e.g. the session id.
+   * The user is loaded before it runs, so it can read `context.data`.
+   */
+  binding?: (
+    context: MiddlewareContext<T>,
+  ) => string | null | undefined | Promise<string | null | undefined>;
+  /** Cookie holding the token (defaults to `csrf_token`) */
+  cookie?: string;
+  /** Attributes of the token cookie; `secure` defaults to HTTPS requests */
+  cookieOptions?: CookieOptions;
+  /** Header carrying the token on unsafe requests (defaults to `x-csrf-token`) */
+  header?: string;
+  /** Form field carrying the token on form submissions (defaults to `_csrf`) */
+  formField?: string | false;
+  /** Check `Origin`/`Referer` against the request origin and `allowedOrigins` */
+  checkOrigin?: boolean;
+  /** Origins other than the request origin allowed to send unsafe requests */
+  allowedOrigins?: string[];
+  /** Paths that skip CSRF checks; `/*` suffixes match prefixes */
+  exempt?: (string | RegExp)[];
+  /** Create the response for rejected requests, defaults to 403 Forbidden */
+  response?: (
+    context: MiddlewareContext<T>,
+    failure: CsrfFailure,
+  ) => MiddlewareResult;
+}
 
 /**
  * Built-in rule factory functions for common middleware patterns
  */
 export interface RuleFactories<T = any> {
   /** Create a rule that requires user to be logged in */
-  isLoggedIn(): MiddlewareRule<T>;
+  isLoggedIn(options?: SignInOptions): MiddlewareRule<T>;
   /** Create a rule that requires user to not be logged in */
-  isNotLoggedIn(): MiddlewareRule<T>;
+  isNotLoggedIn(destination?: string): MiddlewareRule<T>;
   /** Create a rule that requires user to have a specific role */
   hasRole(role: string): MiddlewareRule<T>;
   /** Create a rule that requires user to have a specific permission */
   hasPermission(permission: string): MiddlewareRule<T>;
   /** Create a rule that redirects to a destination */
   redirectTo(destination: string): MiddlewareRule<T>;
+  /** Create a rule that rewrites to a destination */
+  rewriteTo(destination: string): MiddlewareRule<T>;
+  /** Run the rule for a feature flag's variant */
+  flag<P = RouteParams, X extends ContextExtension = {}>(
+    name: string,
+    variants: NoInfer<Record<string, MiddlewareRule<T, P, X>>>,
+  ): MiddlewareRule<T, P, X>;
+  /** Create a CSRF protection rule for unsafe methods */
+  csrf(options?: CsrfOptions<T>): MiddlewareRule<T>;
   /** Create a rate limiting rule */
-  rateLimit(options: { requests: number; window: number }): MiddlewareRule<T>;
-  /** Create a custom rule */
-  custom(fn: MiddlewareRule<T>): MiddlewareRule<T>;
+  rateLimit(options: RateLimitOptions<T>): MiddlewareRule<T>;
+  /** Create a custom rule, optionally describing what it needs */
+  custom(fn: MiddlewareRule<T>, info?: RuleInfo): MiddlewareRule<T>;
+  /** Pass only if every rule passes; the first failing response wins */
+  allOf<P = RouteParams, X extends ContextExtension = {}>(
+    ...rules: NoInfer<MiddlewareRule<T, P, X>>[]
+  ): MiddlewareRule<T, P, X>;
+  /** Pass if any rule passes; if all fail, the first failing response wins */
+  anyOf<P = RouteParams, X extends ContextExtension = {}>(
+    ...rules: NoInfer<MiddlewareRule<T, P, X>>[]
+  ): MiddlewareRule<T, P, X>;
+  /** Pass only if the rule fails, otherwise respond with `response` */
+  not<P = RouteParams, X extends ContextExtension = {}>(
+    rule: NoInfer<MiddlewareRule<T, P, X>>,
+    response?: NoInfer<
+      (context: MiddlewareContext<T, P> & X) => MiddlewareResult
+    >,
+  ): MiddlewareRule<T, P, X>;
+  /** Run the rules only when the predicate holds */
+  when<P = RouteParams, X extends ContextExtension = {}>(
+    predicate: NoInfer<RulePredicate<T, P, X>>,
+    ...rules: NoInfer<MiddlewareRule<T, P, X>>[]
+  ): MiddlewareRule<T, P, X>;
+  /** Run the rules only when the predicate does not hold */
+  unless<P = RouteParams, X extends ContextExtension = {}>(
+    predicate: NoInfer<RulePredicate<T, P, X>>,
+    ...rules: NoInfer<MiddlewareRule<T, P, X>>[]
+  ): MiddlewareRule<T, P, X>;
 }
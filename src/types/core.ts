@@ -1,33 +1,298 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+/**
+ * Route parameters extracted from a matched path.
+ * Catch-all parameters hold their segments joined with `/`.
+ */
+export type RouteParams = Record<string, string>;
+
+/**
+ * Path segments matched by each catch-all parameter
+ */
+export type RouteSegments = Record<string, string[]>;
+
+/**
+ * Parameters and catch-all segments of a path matched against a pattern
+ */
+export interface PathMatch {
+  /** Parameters extracted from the path */
+  params: RouteParams;
+  /** Segments matched by catch-all parameters */
+  segments: RouteSegments;
+}
+
+/**
+ * A single parsed segment of a route pattern
+ */
+export interface RouteSegment {
+  /** Kind of segment */
+  kind: 'static' | 'dynamic' | 'catchAll' | 'optionalCatchAll';
+  /** Literal text for static segments, parameter name otherwise */
+  value: string;
+}
+
+/**
+ * Parameters contributed by a single route pattern segment
+ */
+type SegmentParams<S extends string> = S extends `[[...${infer Name}]]`
+  ? { [K in Name]?: string }
+  : S extends `[...${infer Name}]`
+    ? { [K in Name]: string }
+    : S extends `[${infer Name}]`
+      ? { [K in Name]: string }
+      : {};
+
+/**
+ * Parameters contributed by every segment of a route pattern
+ */
+type PatternParams<P extends string> = P extends `${infer Head}/${infer Rest}`
+  ? SegmentParams<Head> & PatternParams<Rest>
+  : SegmentParams<P>;
+
+/**
+ * Infer the typed parameters of a route pattern.
+ * `/users/[id]/[...path]` infers `{ id: string; path: string }`.
+ */
+export type InferRouteParams<P extends string> = string extends P
+  ? RouteParams
+  : { [K in keyof PatternParams<P>]: PatternParams<P>[K] };
+
+/**
+ * Parameters of a prefix route, including the `*` remainder
+ */
+export type PrefixRouteParams<P extends string> = InferRouteParams<P> & {
+  '*': string;
+};
+
 /**
  * Core middleware context passed to rules and plugins
  */
-export interface MiddlewareContext<T = any> {
-  /** User data fetched by the fetchUser function */
-  data: T | null;
+export interface MiddlewareContext<T = any, P = RouteParams> {
+  /**
+   * User data fetched by the fetchUser function.
+   * Fetched lazily before the first rule that needs it. Reading it before
+   * then throws a `UserNotLoadedError`; use `load('user')` where the user
+   * may not be loaded yet.
+   */
+  readonly data: T | null;
   /** The incoming Next.js request object */
   req: NextRequest;
   /** The current request path */
   path: string;
   /** Route parameters extracted from dynamic segments */
-  params: Record<string, string>;
+  params: P;
+  /**
+   * Segments matched by catch-all parameters, e.g. `{ slug: ['a', 'b'] }`
+   * for `/docs/[...slug]` on `/docs/a/b`, where `params.slug` is `a/b`
+   */
+  segments: RouteSegments;
+  /**
+   * Pattern of the route whose rules are running, or of the most specific
+   * matched route outside the rules. Null if no route matched.
+   */
+  route: string | null;
   /** Additional metadata for the request */
   metadata: Record<string, any>;
+  /** Headers added to the final response, whichever rule or plugin produces it */
+  responseHeaders: Headers;
+  /** Cookies set on the final response */
+  responseCookies: ResponseCookieJar;
+  /**
+   * Request headers seen by pages and route handlers when the request
+   * continues or is rewritten. Starts as a copy of the incoming headers;
+   * changes, including deletions, are forwarded.
+   */
+  requestHeaders: Headers;
+  /**
+   * Run a named data loader, memoized for the request.
+   * The `user` loader runs fetchUser and also populates `data`.
+   */
+  load(name: 'user'): Promise<T | null>;
+  load<V = any>(name: string): Promise<V>;
+  /**
+   * Redirect to the configured sign-in page, preserving the requested URL
+   * in the callback parameter. Options override the builder's settings.
+   */
+  redirectToSignIn(options?: SignInOptions): NextResponse;
+  /** The callback URL from the request query, or null if missing or unsafe */
+  getCallbackUrl(): string | null;
+  /**
+   * Metadata of the routes the path matches when requested with another
+   * method, merged over the default metadata like `metadata`. Lets a
+   * plugin answer a CORS preflight with the policy of the route it asks
+   * about.
+   */
+  getRouteMetadata(method: string): Record<string, any>;
 }
 
+/**
+ * Attributes of a cookie set on the response
+ */
+export interface CookieOptions {
+  path?: string;
+  domain?: string;
+  /** Lifetime in seconds */
+  maxAge?: number;
+  expires?: Date;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'strict' | 'lax' | 'none';
+}
+
+/**
+ * A cookie set on the response
+ */
+export interface ResponseCookie {
+  name: string;
+  value: string;
+  options?: CookieOptions;
+}
+
+/**
+ * Cookies collected during a request and set on the final response.
+ * Setting a cookie again replaces the earlier value.
+ */
+export interface ResponseCookieJar {
+  get(name: string): ResponseCookie | undefined;
+  getAll(): ResponseCookie[];
+  set(name: string, value: string, options?: CookieOptions): void;
+  /** Expire the cookie in the browser */
+  delete(name: string, options?: Pick<CookieOptions, 'path' | 'domain'>): void;
+}
+
+/**
+ * Where unauthenticated requests are sent and how they return
+ */
+export interface SignInOptions {
+  /** Sign-in page, relative to the request origin or absolute (defaults to `/sign-in`) */
+  signInUrl?: string;
+  /**
+   * Query parameter carrying the URL to return to after signing in
+   * (defaults to `callbackUrl`), or false to omit it
+   */
+  callbackParam?: string | false;
+  /** Origins other than the request origin that callback URLs may point to */
+  allowedRedirectOrigins?: string[];
+}
+
+/**
+ * Function that loads data for a request, run at most once per request
+ */
+export type DataLoader<T = any, V = any> = (
+  req: NextRequest,
+  context: MiddlewareContext<T>,
+) => Promise<V> | V;
+
 /**
  * Result returned by middleware rules
  */
 export type MiddlewareResult = NextResponse | Response | null;
 
 /**
- * Function that processes middleware logic
+ * Fields added to the context by plugins
  */
-export type MiddlewareRule<T = any> = (
-  context: MiddlewareContext<T>,
+export type ContextExtension = object;
+
+/**
+ * Function that processes middleware logic.
+ * `X` holds the context fields contributed by registered plugins.
+ */
+export type MiddlewareRule<
+  T = any,
+  P = RouteParams,
+  X extends ContextExtension = {},
+> = (
+  context: MiddlewareContext<T, P> & X,
 ) => Promise<MiddlewareResult> | MiddlewareResult;
 
+/**
+ * HTTP request method
+ */
+export type HttpMethod =
+  | 'GET'
+  | 'HEAD'
+  | 'POST'
+  | 'PUT'
+  | 'PATCH'
+  | 'DELETE'
+  | 'OPTIONS';
+
+/**
+ * Condition on a request value: an exact string, a pattern, or a predicate
+ */
+export type ValueCondition = string | RegExp | ((value: string) => boolean);
+
+/**
+ * Request conditions a route requires in addition to its pattern.
+ * A route matches only when every declared condition holds.
+ * For headers, query params and cookies, `true` requires the value to be
+ * present and `false` requires it to be absent.
+ */
+export interface RouteConditions {
+  /** Allowed request methods */
+  method?: HttpMethod | HttpMethod[];
+  /** Allowed hostnames */
+  host?: ValueCondition | ValueCondition[];
+  /** Required request headers */
+  headers?: Record<string, ValueCondition | boolean>;
+  /** Required query parameters */
+  query?: Record<string, ValueCondition | boolean>;
+  /** Required cookies */
+  cookies?: Record<string, ValueCondition | boolean>;
+}
+
+/**
+ * A request value that must be present, or absent, for a redirect or
+ * rewrite to apply. Without `value`, any value matches.
+ */
+export type RequestMatch =
+  | {
+      type: 'header' | 'cookie' | 'query';
+      key: string;
+      value?: ValueCondition;
+    }
+  | { type: 'host'; value: ValueCondition };
+
+/**
+ * Entry of a redirect or rewrite table
+ */
+export interface PathMapping<T = any> {
+  /**
+   * Source pattern, with `[param]`, `[...param]` and `[[...param]]`
+   * segments or a trailing `/*` wildcard
+   */
+  source: string;
+  /**
+   * Destination path or URL. `[param]` placeholders, in any of the source
+   * forms, and `*` are replaced with the matched values.
+   */
+  destination: string;
+  /** Request values that must all be present */
+  has?: RequestMatch[];
+  /** Request values that must all be absent */
+  missing?: RequestMatch[];
+  /** Condition on the request context, e.g. the user */
+  when?: (
+    context: MiddlewareContext<T>,
+    params: RouteParams,
+  ) => boolean | Promise<boolean>;
+}
+
+/**
+ * Entry of a redirect table
+ */
+export interface RedirectMapping<T = any> extends PathMapping<T> {
+  /** Whether to redirect with 308 instead of 307 */
+  permanent?: boolean;
+  /** Status code, overriding `permanent` */
+  statusCode?: 301 | 302 | 303 | 307 | 308;
+}
+
+/**
+ * Entry of a rewrite table
+ */
+export type RewriteMapping<T = any> = PathMapping<T>;
+
 /**
  * Route definition with priority and metadata
  */
@@ -44,49 +309,164 @@ export interface RouteDefinition<T = any> {
   prefix?: string;
   /** Additional metadata for this route */
   metadata?: Record<string, any>;
+  /** Request conditions that must hold for this route to match */
+  conditions?: RouteConditions;
+  /** Plugins that only run when this route matches */
+  plugins?: Plugin<T>[];
+  /**
+   * Whether the route needs the user.
+   * `true` fetches it before any rule runs, `false` never fetches it
+   * automatically, and by default it is fetched before the first rule
+   * that needs it.
+   */
+  needsUser?: boolean;
+}
+
+/**
+ * Options for registering a route with custom configuration
+ */
+export interface RouteOptions<
+  T = any,
+  P = RouteParams,
+  X extends ContextExtension = {},
+> {
+  /** Array of rules to execute for this route */
+  rules: MiddlewareRule<T, P, X>[];
+  /** Whether this is an exact path match (defaults to true) */
+  isExact?: boolean;
+  /** Additional metadata for this route */
+  metadata?: Record<string, any>;
+  /** Request conditions that must hold for this route to match */
+  conditions?: RouteConditions;
+  /** Whether the route needs the user (see `RouteDefinition.needsUser`) */
+  needsUser?: boolean;
+}
+
+/**
+ * Options shared by every route in a route group
+ */
+export interface RouteGroupOptions<
+  T = any,
+  P = RouteParams,
+  X extends ContextExtension = {},
+> {
+  /** Rules executed before each child route's own rules */
+  rules?: MiddlewareRule<T, P, X>[];
+  /** Metadata inherited by each child route */
+  metadata?: Record<string, any>;
+  /**
+   * Plugins that only run when a child route matches.
+   * Their beforeRequest hook runs after route matching.
+   */
+  plugins?: Plugin<T>[];
+  /** Request conditions inherited by each child route */
+  conditions?: RouteConditions;
+  /** Whether child routes need the user, unless they declare otherwise */
+  needsUser?: boolean;
+}
+
+/**
+ * A route matched against a request path
+ */
+export interface RouteMatch<T = any> extends PathMatch {
+  /** The matched route definition */
+  route: RouteDefinition<T>;
 }
 
 /**
  * Options for configuring the middleware builder
  */
-export interface MiddlewareBuilderOptions<T = any> {
+export interface MiddlewareBuilderOptions<T = any> extends SignInOptions {
   /** Function to fetch user data for each request */
   fetchUser: (req: NextRequest) => Promise<T | null>;
+  /**
+   * Additional named data loaders, available through `context.load()`.
+   * `user` is reserved for `fetchUser`.
+   */
+  loaders?: Record<string, DataLoader<T>>;
   /** Paths that require authentication */
   authPaths?: string[];
   /** Array of plugins to use */
   plugins?: Plugin<T>[];
   /** Default metadata applied to all routes */
   defaultMetadata?: Record<string, any>;
+  /**
+   * How matched routes are executed.
+   * `first-match` runs only the most specific route (default).
+   * `cascade` runs every matching route; any rule can still short-circuit.
+   */
+  mode?: 'first-match' | 'cascade';
+  /** Order in which cascading routes run (defaults to `general-first`) */
+  cascadeOrder?: 'general-first' | 'specific-first';
 }
 
 /**
- * Plugin interface for extending middleware functionality
+ * Context seen by plugin hooks.
+ * Fields the plugin provides may not be set yet when a hook runs.
+ */
+export type PluginContext<
+  T = any,
+  E extends ContextExtension = {},
+> = MiddlewareContext<T> & Partial<E>;
+
+/**
+ * Plugin interface for extending middleware functionality.
+ * `E` declares the fields the plugin adds to the context. Rules registered
+ * after `MiddlewareBuilder.use()` see those fields with full typing.
  */
-export interface Plugin<T = any> {
+export interface Plugin<T = any, E extends ContextExtension = {}> {
   /** Unique plugin name */
   name: string;
-  /** Called before request processing begins */
-  beforeRequest?(context: MiddlewareContext<T>): Promise<void> | void;
+  /**
+   * Type-only declaration of the fields this plugin adds to the context.
+   * Declare it with `declare readonly provides?: { ... }`; it is never set
+   * at runtime.
+   */
+  readonly provides?: E;
+  /**
+   * Called before request processing begins.
+   * Returning a response short-circuits the request. Plugins may also
+   * update `context.path` to rewrite the request before route matching.
+   */
+  beforeRequest?(
+    context: PluginContext<T, E>,
+  ): Promise<MiddlewareResult | void> | MiddlewareResult | void;
+  /**
+   * Called after route matching, once route metadata is merged and before
+   * any rule runs. Also called when no route matched.
+   * Returning a response short-circuits the request.
+   */
+  beforeRules?(
+    context: PluginContext<T, E>,
+  ): Promise<MiddlewareResult | void> | MiddlewareResult | void;
+  /**
+   * Wraps the `fetchUser` call of the `user` loader, in plugin order.
+   * Call `next` to fetch the user, or resolve without calling it to skip
+   * the fetch, e.g. on a cache hit.
+   */
+  fetchUser?(
+    context: PluginContext<T, E>,
+    next: () => Promise<T | null>,
+  ): Promise<T | null>;
   /** Called before each rule execution */
   beforeRule?(
-    context: MiddlewareContext<T>,
+    context: PluginContext<T, E>,
     rule: MiddlewareRule<T>,
   ): Promise<void> | void;
   /** Called after each rule execution */
   afterRule?(
-    context: MiddlewareContext<T>,
+    context: PluginContext<T, E>,
     rule: MiddlewareRule<T>,
     result: MiddlewareResult,
   ): Promise<void> | void;
   /** Called after request processing completes */
   afterRequest?(
-    context: MiddlewareContext<T>,
+    context: PluginContext<T, E>,
     result: MiddlewareResult,
   ): Promise<void> | void;
   /** Called when an error occurs */
   onError?(
-    context: MiddlewareContext<T>,
+    context: PluginContext<T, E>,
     error: Error,
   ): Promise<MiddlewareResult | void> | MiddlewareResult | void;
 }
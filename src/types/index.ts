@@ -12,6 +12,19 @@ export * from './legacy';
 export * from '../plugins/logging/types';
 export * from '../plugins/caching/types';
 export * from '../plugins/i18n/types';
+export * from '../plugins/cors/types';
+export * from '../plugins/security-headers/types';
+export * from '../plugins/feature-flags/types';
+export * from '../plugins/request-id/types';
+
+// Rate limit types
+export * from '../rate-limit/types';
+
+// Auth provider types
+export * from '../auth/types';
+
+// Authorization types
+export * from '../authorization/types';
 
 // Rule types
 export * from '../rules/types';
@@ -0,0 +1,6 @@
+/**
+ * Block inference from a parameter, so type arguments are inferred from
+ * the other parameters only. Same as the built-in `NoInfer` of
+ * TypeScript 5.4, which the `typescript` peer range predates.
+ */
+export type NoInfer<T> = [T][T extends any ? 0 : never];
@@ -0,0 +1,130 @@
+import { NextRequest } from 'next/server';
+import { RequestMatch, RouteConditions, ValueCondition } from '../types/core';
+
+/**
+ * Check whether a request satisfies every condition of a route.
+ *
+ * @param req - The incoming request
+ * @param conditions - The route conditions to check
+ * @returns True if all conditions hold
+ */
+export function matchConditions(
+  req: NextRequest,
+  conditions: RouteConditions,
+): boolean {
+  if (conditions.method) {
+    const methods = toArray(conditions.method).map((m) => m.toUpperCase());
+    if (!methods.includes(req.method.toUpperCase())) {
+      return false;
+    }
+  }
+
+  if (conditions.host) {
+    const hostname = req.nextUrl.hostname;
+    if (!toArray(conditions.host).some((h) => matchValue(hostname, h))) {
+      return false;
+    }
+  }
+
+  return (
+    matchRecord(conditions.headers, (name) => req.headers.get(name)) &&
+    matchRecord(conditions.query, (name) =>
+      req.nextUrl.searchParams.get(name),
+    ) &&
+    matchRecord(conditions.cookies, (name) => req.cookies.get(name)?.value)
+  );
+}
+
+/**
+ * Check `has` and `missing` request matches.
+ *
+ * @param req - The incoming request
+ * @param has - Matches that must all hold
+ * @param missing - Matches that must all fail
+ * @returns True if the request satisfies both lists
+ */
+export function matchRequestMatches(
+  req: NextRequest,
+  has: RequestMatch[] = [],
+  missing: RequestMatch[] = [],
+): boolean {
+  return (
+    has.every((match) => matchRequest(req, match)) &&
+    !missing.some((match) => matchRequest(req, match))
+  );
+}
+
+/**
+ * Count the conditions a route declares, used to rank conditional routes
+ * above unconditional routes with the same pattern.
+ *
+ * @param conditions - The route conditions
+ * @returns Number of declared conditions
+ */
+export function countConditions(conditions?: RouteConditions): number {
+  if (!conditions) return 0;
+
+  return (
+    (conditions.method ? 1 : 0) +
+    (conditions.host ? 1 : 0) +
+    Object.keys(conditions.headers ?? {}).length +
+    Object.keys(conditions.query ?? {}).length +
+    Object.keys(conditions.cookies ?? {}).length
+  );
+}
+
+/**
+ * Check a set of named values against their conditions.
+ * `true` requires the value to be present, `false` requires it to be absent.
+ */
+function matchRecord(
+  record: Record<string, ValueCondition | boolean> | undefined,
+  read: (name: string) => string | null | undefined,
+): boolean {
+  if (!record) return true;
+
+  return Object.entries(record).every(([name, condition]) => {
+    const value = read(name);
+    if (typeof condition === 'boolean') {
+      return condition === (value !== null && value !== undefined);
+    }
+    return (
+      value !== null && value !== undefined && matchValue(value, condition)
+    );
+  });
+}
+
+function matchRequest(req: NextRequest, match: RequestMatch): boolean {
+  let value: string | null | undefined;
+  switch (match.type) {
+    case 'header':
+      value = req.headers.get(match.key);
+      break;
+    case 'cookie':
+      value = req.cookies.get(match.key)?.value;
+      break;
+    case 'query':
+      value = req.nextUrl.searchParams.get(match.key);
+      break;
+    case 'host':
+      value = req.nextUrl.hostname;
+      break;
+  }
+
+  if (value === null || value === undefined) return false;
+  return match.value === undefined || matchValue(value, match.value);
+}
+
+function matchValue(value: string, condition: ValueCondition): boolean {
+  if (typeof condition === 'string') {
+    return value === condition;
+  }
+  if (condition instanceof RegExp) {
+    return condition.test(value);
+  }
+  return condition(value);
+}
+
+function toArray<V>(value: V | V[]): V[] {
+  return Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,59 @@
+import {
+  CookieOptions,
+  ResponseCookie,
+  ResponseCookieJar,
+} from '../types/core';
+
+/**
+ * Serialize a cookie for a `Set-Cookie` header.
+ *
+ * @param name - The cookie name
+ * @param value - The cookie value, URI-encoded in the header
+ * @param options - Cookie attributes
+ * @returns The `Set-Cookie` header value
+ */
+export function serializeCookie(
+  name: string,
+  value: string,
+  options: CookieOptions = {},
+): string {
+  const parts = [`${name}=${encodeURIComponent(value)}`];
+
+  parts.push(`Path=${options.path ?? '/'}`);
+  if (options.domain) parts.push(`Domain=${options.domain}`);
+  if (options.maxAge !== undefined) {
+    parts.push(`Max-Age=${Math.floor(options.maxAge)}`);
+  }
+  if (options.expires) parts.push(`Expires=${options.expires.toUTCString()}`);
+  if (options.httpOnly) parts.push('HttpOnly');
+  if (options.secure) parts.push('Secure');
+  if (options.sameSite) {
+    parts.push(
+      `SameSite=${options.sameSite[0]!.toUpperCase()}${options.sameSite.slice(1)}`,
+    );
+  }
+
+  return parts.join('; ');
+}
+
+/**
+ * Create an empty cookie jar for a request.
+ */
+export function createCookieJar(): ResponseCookieJar {
+  const cookies = new Map<string, ResponseCookie>();
+
+  return {
+    get: (name) => cookies.get(name),
+    getAll: () => [...cookies.values()],
+    set: (name, value, options = {}) => {
+      cookies.set(name, { name, value, options });
+    },
+    delete: (name, options = {}) => {
+      cookies.set(name, {
+        name,
+        value: '',
+        options: { ...options, maxAge: 0, expires: new Date(0) },
+      });
+    },
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Fill the placeholders of a path template with route parameters.
+ * `[param]`, `[...param]` and `[[...param]]` are replaced with the value
+ * of `param`, and `*` with the wildcard match. Values are URL-encoded
+ * segment by segment, with catch-all segments, when given, joined with
+ * `/`; empty and dot segments are dropped, and empty values drop the
+ * slash before them.
+ *
+ * @param template - Path or URL with placeholders, e.g. `/blog/[slug]`
+ * @param params - The parameters to substitute, and optionally the
+ * catch-all segments
+ * @returns The filled path or URL
+ */
+export function fillPathTemplate(
+  template: string,
+  params: Record<string, string | string[]>,
+): string {
+  const filled = template.replace(
+    /(\/?)(?:\[\[\.\.\.([^\]]+)\]\]|\[(?:\.\.\.)?([^\]]+)\]|\*)/g,
+    (_, slash: string, optional?: string, name?: string) => {
+      const key = optional ?? name;
+      const value = params[key ?? '*'] ?? '';
+      // Params are decoded, so each segment is encoded again to keep a
+      // `/`, `?` or `#` in a value from changing the destination.
+      const segments =
+        key === undefined ? String(value).split('/') : [value].flat();
+      const text = segments
+        .filter((segment) => segment && segment !== '.' && segment !== '..')
+        .map(encodeURIComponent)
+        .join('/');
+      return text ? slash + text : '';
+    },
+  );
+  return filled.startsWith('/') || /^[a-z][a-z\d+.-]*:/i.test(filled)
+    ? filled
+    : `/${filled}`;
+}
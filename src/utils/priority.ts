@@ -1,17 +1,135 @@
+import { PathMatch, RouteParams, RouteSegment } from '../types/core';
+
+/**
+ * Parse a route pattern into its segments.
+ * Supports Next.js style dynamic segments (`[id]`), catch-all segments
+ * (`[...slug]`) and optional catch-all segments (`[[...slug]]`).
+ * Route groups such as `(marketing)` and a trailing `/*` are ignored.
+ *
+ * @param pattern - The route pattern to parse
+ * @returns Array of parsed segments
+ */
+export function parseRoutePattern(pattern: string): RouteSegment[] {
+  return pattern
+    .replace(/\/\*$/, '')
+    .split('/')
+    .filter((part) => part && !/^\(.*\)$/.test(part))
+    .map((part): RouteSegment => {
+      if (part.startsWith('[[...') && part.endsWith(']]')) {
+        return { kind: 'optionalCatchAll', value: part.slice(5, -2) };
+      }
+      if (part.startsWith('[...') && part.endsWith(']')) {
+        return { kind: 'catchAll', value: part.slice(4, -1) };
+      }
+      if (part.startsWith('[') && part.endsWith(']')) {
+        return { kind: 'dynamic', value: part.slice(1, -1) };
+      }
+      return { kind: 'static', value: part };
+    });
+}
+
 /**
  * Calculate priority based on route specificity.
  * Lower priority means higher precedence (executed first).
+ * Exact routes rank above catch-all routes, which rank above prefix routes.
+ * Within each group, static segments rank above dynamic segments.
  *
  * @param path - The route path pattern
  * @param isExact - Whether this is an exact match
  * @returns Priority number (lower = higher precedence)
  */
 export function calculatePriority(path: string, isExact: boolean): number {
+  const segments = parseRoutePattern(path);
+  const depth = Math.min(segments.length, 48);
+  const dynamic = Math.min(
+    segments.filter((segment) => segment.kind === 'dynamic').length,
+    9,
+  );
+  const last = segments[segments.length - 1];
+
+  if (!isExact) {
+    return 1000 + (100 - depth) * 10 + dynamic;
+  }
+
+  if (last?.kind === 'catchAll' || last?.kind === 'optionalCatchAll') {
+    const optional = last.kind === 'optionalCatchAll' ? 1 : 0;
+    return 500 + (48 - depth) * 10 + Math.min(dynamic, 8) + optional;
+  }
+
+  return (depth + 1) * 10 + dynamic;
+}
+
+/**
+ * Match a request path against a route pattern and extract its parameters
+ * and catch-all segments.
+ *
+ * @param path - The incoming request path
+ * @param pattern - The route pattern to match against
+ * @param isExact - Whether the whole path must be consumed by the pattern
+ * @returns The extracted parameters and segments, or null if the path does
+ * not match
+ */
+export function matchPath(
+  path: string,
+  pattern: string,
+  isExact: boolean,
+): PathMatch | null {
+  const segments = parseRoutePattern(pattern);
+  const parts = splitPath(path);
+  const params: RouteParams = {};
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i]!;
+    const part = parts[i];
+
+    if (segment.kind === 'catchAll' || segment.kind === 'optionalCatchAll') {
+      const rest = parts.slice(i);
+      if (segment.kind === 'catchAll' && rest.length === 0) {
+        return null;
+      }
+      if (!isExact) {
+        params['*'] = '';
+      }
+      if (rest.length === 0) {
+        return { params, segments: {} };
+      }
+      params[segment.value] = rest.join('/');
+      return { params, segments: { [segment.value]: rest } };
+    }
+
+    if (part === undefined) {
+      return null;
+    }
+
+    if (segment.kind === 'dynamic') {
+      params[segment.value] = part;
+    } else if (segment.value !== part) {
+      return null;
+    }
+  }
+
   if (isExact) {
-    return path.split('/').length * 10;
+    return parts.length === segments.length ? { params, segments: {} } : null;
   }
-  const segments = path.replace(/\/\*$/, '').split('/').filter(Boolean);
-  return 1000 + (100 - segments.length);
+
+  params['*'] = parts.slice(segments.length).join('/');
+  return { params, segments: {} };
+}
+
+/**
+ * Match a request path against a route pattern and extract its parameters.
+ *
+ * @param path - The incoming request path
+ * @param pattern - The route pattern to match against
+ * @param isExact - Whether the whole path must be consumed by the pattern
+ * @returns The extracted parameters, or null if the path does not match
+ */
+export function matchPattern(
+  path: string,
+  pattern: string,
+  isExact: boolean,
+): RouteParams | null {
+  return matchPath(path, pattern, isExact)?.params ?? null;
 }
 
 /**
@@ -29,17 +147,13 @@ export function matchRoute(
   isExact: boolean,
   prefix?: string,
 ): boolean {
-  if (isExact) {
-    return path === pattern;
-  } else {
-    const routePrefix = prefix || pattern.replace(/\/\*$/, '');
-    return path === routePrefix || path.startsWith(routePrefix + '/');
-  }
+  return matchPattern(path, prefix || pattern, isExact) !== null;
 }
 
 /**
  * Extract parameters from path matching.
- * Handles dynamic segments like [id] and wildcard parameters.
+ * Handles dynamic segments like [id], catch-all segments like [...slug]
+ * and the `*` wildcard parameter of prefix routes.
  *
  * @param path - The incoming request path
  * @param pattern - The route pattern
@@ -52,30 +166,27 @@ export function extractParams(
   pattern: string,
   isExact: boolean,
   prefix?: string,
-): Record<string, string> {
-  const params: Record<string, string> = {};
-
-  if (!isExact && prefix) {
-    const remaining = path.slice(prefix.length);
-    if (remaining.startsWith('/')) {
-      params['*'] = remaining.slice(1);
-    } else if (remaining === '') {
-      params['*'] = '';
-    }
-  }
+): RouteParams {
+  return matchPattern(path, prefix || pattern, isExact) ?? {};
+}
 
-  // Handle dynamic segments like [id]
-  if (pattern.includes('[') && pattern.includes(']')) {
-    const patternParts = pattern.split('/');
-    const pathParts = path.split('/');
+/**
+ * Split a request path into decoded segments.
+ *
+ * @param path - The incoming request path
+ * @returns Array of decoded, non-empty path segments
+ */
+export function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean).map(decodeSegment);
+}
 
-    patternParts.forEach((part, index) => {
-      if (part.startsWith('[') && part.endsWith(']')) {
-        const paramName = part.slice(1, -1);
-        params[paramName] = pathParts[index] || '';
-      }
-    });
+/**
+ * Decode a single path segment, keeping the raw value if it is malformed.
+ */
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
   }
-
-  return params;
 }
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SignInOptions } from '../types/core';
+
+/**
+ * Sign-in settings with defaults applied.
+ */
+export type ResolvedSignInOptions = Required<SignInOptions>;
+
+/**
+ * Default sign-in settings.
+ */
+export const defaultSignInOptions: ResolvedSignInOptions = {
+  signInUrl: '/sign-in',
+  callbackParam: 'callbackUrl',
+  allowedRedirectOrigins: [],
+};
+
+/**
+ * Check whether a redirect target is safe to follow.
+ * Relative paths are safe; absolute URLs must point to the request origin
+ * or one of the allowed origins. Protocol-relative URLs, backslashes and
+ * control characters are rejected.
+ *
+ * @param target - The redirect target, usually taken from a query parameter
+ * @param req - The incoming request
+ * @param allowedOrigins - Additional origins redirects may point to
+ * @returns True if the target can be redirected to
+ */
+export function isSafeRedirect(
+  target: string,
+  req: NextRequest,
+  allowedOrigins: string[] = [],
+): boolean {
+  if (!target || /[\u0000-\u001f\\]/.test(target)) {
+    return false;
+  }
+  if (target.startsWith('/')) {
+    return !target.startsWith('//');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return false;
+  }
+
+  const origins = [new URL(req.url).origin, ...allowedOrigins.map(toOrigin)];
+  return origins.includes(url.origin);
+}
+
+/**
+ * Read the callback URL from the request query, if present and safe.
+ *
+ * @param req - The incoming request
+ * @param options - Sign-in settings naming the callback parameter
+ * @returns The callback URL, or null if missing or unsafe
+ */
+export function getCallbackUrl(
+  req: NextRequest,
+  options: ResolvedSignInOptions = defaultSignInOptions,
+): string | null {
+  if (!options.callbackParam) return null;
+
+  const target = req.nextUrl.searchParams.get(options.callbackParam);
+  return target && isSafeRedirect(target, req, options.allowedRedirectOrigins)
+    ? target
+    : null;
+}
+
+/**
+ * Redirect to the sign-in page, carrying the requested path and query in
+ * the callback parameter. The callback is relative when the sign-in page
+ * is on the request origin, and absolute otherwise.
+ *
+ * @param req - The incoming request
+ * @param options - Sign-in settings
+ * @returns The redirect response
+ */
+export function createSignInRedirect(
+  req: NextRequest,
+  options: ResolvedSignInOptions = defaultSignInOptions,
+): NextResponse {
+  const requestUrl = new URL(req.url);
+  const signInUrl = new URL(options.signInUrl, requestUrl);
+
+  if (options.callbackParam && !isSignInPage(req, options)) {
+    const callback =
+      signInUrl.origin === requestUrl.origin
+        ? `${requestUrl.pathname}${requestUrl.search}`
+        : requestUrl.href;
+    signInUrl.searchParams.set(options.callbackParam, callback);
+  }
+
+  return NextResponse.redirect(signInUrl);
+}
+
+/**
+ * Check whether the request is for the sign-in page itself.
+ *
+ * @param req - The incoming request
+ * @param options - Sign-in settings
+ * @returns True if redirecting to sign-in would loop
+ */
+export function isSignInPage(
+  req: NextRequest,
+  options: ResolvedSignInOptions = defaultSignInOptions,
+): boolean {
+  const requestUrl = new URL(req.url);
+  const signInUrl = new URL(options.signInUrl, requestUrl);
+  return (
+    signInUrl.origin === requestUrl.origin &&
+    signInUrl.pathname === requestUrl.pathname
+  );
+}
+
+function toOrigin(origin: string): string {
+  try {
+    return new URL(origin).origin;
+  } catch {
+    return origin;
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server';
+
+const overrideHeader = 'x-middleware-override-headers';
+const requestHeaderPrefix = 'x-middleware-request-';
+
+/**
+ * Pass modified request headers on to the page or route handler, the way
+ * `NextResponse.next({ request: { headers } })` does.
+ * Only the headers that differ from the incoming request are changed, so
+ * headers forwarded earlier on the same response are kept. Responses that
+ * neither continue nor rewrite the request are left alone.
+ *
+ * @param response - The middleware response
+ * @param req - The incoming request
+ * @param headers - The request headers the page should see
+ */
+export function forwardRequestHeaders(
+  response: Response,
+  req: NextRequest,
+  headers: Headers,
+): void {
+  if (
+    !response.headers.has('x-middleware-next') &&
+    !response.headers.has('x-middleware-rewrite')
+  ) {
+    return;
+  }
+
+  const forwarded = getForwardedHeaders(response) ?? new Headers(req.headers);
+  let changed = false;
+
+  headers.forEach((value, name) => {
+    if (req.headers.get(name) !== value) {
+      forwarded.set(name, value);
+      changed = true;
+    }
+  });
+  req.headers.forEach((_, name) => {
+    if (!headers.has(name)) {
+      forwarded.delete(name);
+      changed = true;
+    }
+  });
+  if (!changed) return;
+
+  for (const name of [...response.headers.keys()]) {
+    if (name.startsWith(requestHeaderPrefix)) response.headers.delete(name);
+  }
+
+  const names: string[] = [];
+  forwarded.forEach((value, name) => {
+    response.headers.set(requestHeaderPrefix + name, value);
+    names.push(name);
+  });
+  response.headers.set(overrideHeader, names.join(','));
+}
+
+/**
+ * Request headers already forwarded by the response, if any.
+ */
+function getForwardedHeaders(response: Response): Headers | null {
+  const names = response.headers.get(overrideHeader);
+  if (names === null) return null;
+
+  const forwarded = new Headers();
+  for (const name of names.split(',')) {
+    const value = response.headers.get(requestHeaderPrefix + name);
+    if (value !== null) forwarded.set(name, value);
+  }
+  return forwarded;
+}